@@ -7,10 +7,33 @@ import PropertyPanel from './components/PropertyPanel';
 import Timeline from './components/Timeline';
 import ChatAssistant from './components/ChatAssistant';
 import RenderModal from './components/RenderModal';
+import ProjectSettingsModal from './components/ProjectSettingsModal';
 import StoryboardView from './components/StoryboardView';
-import { Asset, TimelineSegment, AssetType, TrackType, PlaybackMode, StoryboardSegment } from './types';
-import { setDynamicApiKey, generateStoryboardStructure, generateImage, generateVideo, generateSpeech } from './services/geminiService';
-import { ArrowDownTrayIcon, ShareIcon, SparklesIcon, ExclamationTriangleIcon, SpeakerWaveIcon, SpeakerXMarkIcon, DocumentDuplicateIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { Asset, TimelineSegment, AssetType, TrackKind, PlaybackMode, StoryboardSegment, ProjectData, ProjectSettings, ProviderSelection, Track, ReframeKeyframe } from './types';
+import { setDynamicApiKey } from './services/geminiService';
+import { generateStoryboardStructure, generateImage, generateVideo, generateSpeech, analyzeSubjectCenters, transcribeAudio, getProviderLabel, getProviderSelection, setProviderSelection, needsGeminiKey, OFFLINE_PROVIDER_SELECTION } from './services/generationService';
+import { serializeProject, deserializeProject, PROJECT_FILE_EXTENSION } from './services/projectService';
+import { autosaveSession, loadLastSession, restoreSession, clearLastSession, SessionSnapshot } from './services/autosaveService';
+import { useEditHistory, EditorState } from './utils/editHistory';
+import { trimSegment, splitSegment, findSegmentAtFrame, rippleDelete, packMainTrack, TrimEdge } from './utils/timeline';
+import { DEFAULT_PROJECT_SETTINGS, framesToSeconds, secondsToFrames, rescaleSegments, rescaleFrames } from './utils/projectSettings';
+import { DEFAULT_TRACKS, getMainTrackId, getOverlayTrackIds, getAudioTrackIds, getCaptionTrackIds, isRequiredKind, addTrack, moveTrack } from './utils/tracks';
+import { getReframeSampleTimes, mergeAutoKeyframes } from './utils/reframe';
+import { captureFrames } from './utils/frameCapture';
+import { blobUrlToBase64, getMediaDuration } from './utils/helpers';
+import { TEXT_TEMPLATES } from './utils/textClips';
+import { buildCaptionCues, getCaptionSourceClips, placeCaptions, placeTimelineCaptions } from './utils/captions';
+import { parseSubtitles } from './utils/subtitles';
+import { useRenderQueue } from './utils/renderQueue';
+import HistoryPanel from './components/HistoryPanel';
+import { ArrowDownTrayIcon, ShareIcon, SparklesIcon, ExclamationTriangleIcon, SpeakerWaveIcon, SpeakerXMarkIcon, DocumentDuplicateIcon, XMarkIcon, FolderOpenIcon, DocumentArrowDownIcon, ArrowUturnLeftIcon, ArrowUturnRightIcon, ClockIcon, Cog6ToothIcon } from '@heroicons/react/24/outline';
+
+// Length of a video or audio asset's media, probed from the file when the asset has none recorded; undefined for images or when unreadable
+const getSourceDuration = async (asset: Asset): Promise<number | undefined> => {
+    if (asset.type === AssetType.IMAGE) return undefined;
+    const duration = asset.metadata?.duration || await getMediaDuration(asset.url, asset.type === AssetType.VIDEO ? 'video' : 'audio');
+    return duration > 0 ? duration : undefined;
+};
 
 const App: React.FC = () => {
     // --- LANDING PAGE STATE ---
@@ -21,10 +44,16 @@ const App: React.FC = () => {
     const [checkingKey, setCheckingKey] = useState<boolean>(true);
     const [manualKey, setManualKey] = useState('');
 
+    // --- SESSION RECOVERY STATE ---
+    const [checkingSession, setCheckingSession] = useState<boolean>(true);
+    const [recoverableSession, setRecoverableSession] = useState<SessionSnapshot | null>(null);
+    const [isRestoring, setIsRestoring] = useState(false);
+
     // --- APP STATE ---
-    const [assets, setAssets] = useState<Asset[]>([]);
     const [activeAsset, setActiveAsset] = useState<Asset | null>(null);
     const [showRenderModal, setShowRenderModal] = useState(false);
+    const [showSettingsModal, setShowSettingsModal] = useState(false);
+    const renderQueue = useRenderQueue(); // Lives here so renders keep going with the export dialog closed
     const [maskData, setMaskData] = useState<string | null>(null);
 
     // Director Mode State
@@ -35,6 +64,7 @@ const App: React.FC = () => {
 
     const [storyboardSegments, setStoryboardSegments] = useState<StoryboardSegment[]>([]);
     const [characterAnchor, setCharacterAnchor] = useState<Asset | null>(null);
+    const [providers, setProviders] = useState<ProviderSelection>(getProviderSelection); // Restored from the last visit
 
     // Master Playback State
     const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('TIMELINE');
@@ -43,18 +73,46 @@ const App: React.FC = () => {
     const lastTickRef = useRef<number>(0);
     const reqRef = useRef<number>(0);
 
-    // Initial Segments
-    const [segments, setSegments] = useState<TimelineSegment[]>([
-        { id: '1', assetId: 'start', trackId: TrackType.VIDEO_MAIN, startFrame: 0, endFrame: 120, duration: 4, label: 'Intro Hook', isAiGenerated: false, assetUrl: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4' },
-        { id: '2', assetId: 'mid', trackId: TrackType.VIDEO_MAIN, startFrame: 121, endFrame: 240, duration: 4, label: 'Value Prop', isAiGenerated: true, assetUrl: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4' },
-    ]);
+    // Library + Timeline (Undoable) - Initial Segments
+    const history = useEditHistory({
+        assets: [],
+        tracks: DEFAULT_TRACKS,
+        markers: [],
+        settings: DEFAULT_PROJECT_SETTINGS,
+        // Both samples are 15s clips
+        segments: [
+            { id: '1', assetId: 'start', trackId: DEFAULT_TRACKS[0].id, startFrame: 0, endFrame: 120, duration: 4, sourceDuration: 15, label: 'Intro Hook', isAiGenerated: false, assetUrl: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4' },
+            { id: '2', assetId: 'mid', trackId: DEFAULT_TRACKS[0].id, startFrame: 121, endFrame: 240, duration: 4, sourceDuration: 15, label: 'Value Prop', isAiGenerated: true, assetUrl: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerBlazes.mp4' },
+        ]
+    });
+    const { assets, segments, tracks, markers, settings, undo, redo } = history;
+    const { fps } = settings;
+    const [showHistory, setShowHistory] = useState(false);
+    const [magneticTimeline, setMagneticTimeline] = useState(false);
+
+    // Every library/timeline edit goes through here so the magnetic V1 track stays packed
+    const execute = useCallback((label: string, update: (state: EditorState) => EditorState) => {
+        history.execute(label, state => {
+            const next = update(state);
+            return magneticTimeline ? { ...next, segments: packMainTrack(next.segments, getMainTrackId(next.tracks), next.settings.fps) } : next;
+        });
+    }, [history.execute, magneticTimeline]);
 
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMsg, setLoadingMsg] = useState("");
+    const projectInputRef = useRef<HTMLInputElement>(null);
 
     // --- 1. KEY CHECK ON MOUNT ---
     useEffect(() => {
         const checkKey = async () => {
+            // A studio left on offline providers opens straight back into them
+            if (!needsGeminiKey()) {
+                console.log("[Auth] No capability uses Gemini, skipping the key check.");
+                setHasKey(true);
+                setCheckingKey(false);
+                return;
+            }
+
             console.log("[Auth] Checking for API keys...");
 
             if ((window as any).aistudio) {
@@ -83,6 +141,81 @@ const App: React.FC = () => {
         checkKey();
     }, []);
 
+    // --- 2. LOOK FOR A RECOVERABLE SESSION ---
+    useEffect(() => {
+        loadLastSession()
+            .then(snapshot => {
+                const hasContent = snapshot && (snapshot.project.assets.length > 0 || snapshot.project.segments.length > 0);
+                setRecoverableSession(hasContent ? snapshot : null);
+            })
+            .finally(() => setCheckingSession(false));
+    }, []);
+
+    // --- 3. AUTOSAVE ---
+    // Held back until the user has answered the restore prompt, so the old session isn't overwritten
+    useEffect(() => {
+        if (checkingSession || recoverableSession) return;
+        const timer = setTimeout(() => {
+            autosaveSession({ assets, segments, tracks, storyboardSegments, characterAnchor, markers, settings });
+        }, 1000); // Debounce
+        return () => clearTimeout(timer);
+    }, [checkingSession, recoverableSession, assets, segments, tracks, storyboardSegments, characterAnchor, markers, settings]);
+
+    // Replaces the whole working session (project open / session restore); history starts over
+    const applyProject = (project: ProjectData) => {
+        history.reset({
+            assets: project.assets,
+            segments: project.segments,
+            tracks: project.tracks,
+            markers: project.markers,
+            settings: project.settings
+        });
+        setStoryboardSegments(project.storyboardSegments);
+        setCharacterAnchor(project.characterAnchor);
+        setActiveAsset(null);
+        setIsTimelinePlaying(false);
+        setTimelineTime(0);
+        setPlaybackMode('TIMELINE');
+    };
+
+    const handleRestoreSession = async () => {
+        if (!recoverableSession) return;
+        setIsRestoring(true);
+        try {
+            applyProject(await restoreSession(recoverableSession));
+        } catch (e: any) {
+            console.error(e);
+            alert(`Restore Failed: ${e.message}`);
+        } finally {
+            setIsRestoring(false);
+            setRecoverableSession(null);
+        }
+    };
+
+    // Frame positions are stored in project fps, so a rate change rescales them in the same undoable step
+    const handleApplySettings = (next: ProjectSettings, nextProviders: ProviderSelection) => {
+        const changed = (Object.keys(next) as (keyof ProjectSettings)[]).some(key => next[key] !== settings[key]);
+        if (changed) {
+            execute('Project Settings', state => state.settings.fps === next.fps ? { ...state, settings: next } : {
+                ...state,
+                settings: next,
+                segments: rescaleSegments(state.segments, state.settings.fps, next.fps),
+                markers: rescaleFrames(state.markers, state.settings.fps, next.fps)
+            });
+        }
+        handleSelectProviders(nextProviders);
+    };
+
+    const handleSelectProviders = (next: ProviderSelection) => {
+        setProviderSelection(next);
+        setProviders(next);
+    };
+
+    const handleDiscardSession = async () => {
+        await clearLastSession();
+        setRecoverableSession(null);
+    };
+
     const handleConnectKey = async () => {
         if ((window as any).aistudio) {
             await (window as any).aistudio.openSelectKey();
@@ -99,12 +232,38 @@ const App: React.FC = () => {
         }
     };
 
+    // Every capability on the offline mock, so the studio can be used without a key
+    const handleContinueOffline = () => {
+        handleSelectProviders(OFFLINE_PROVIDER_SELECTION);
+        setHasKey(true);
+    };
+
+    // --- Undo / Redo Shortcuts ---
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+            if (!(e.ctrlKey || e.metaKey)) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
     // Calculate the total duration of the content dynamically
     const contentDuration = useMemo(() => {
         if (segments.length === 0) return 10; // Default canvas size if empty
         const maxEndFrame = Math.max(...segments.map(s => s.endFrame));
-        return maxEndFrame / 30; // Convert frames to seconds
-    }, [segments]);
+        return framesToSeconds(maxEndFrame, fps);
+    }, [segments, fps]);
 
     // --- Master Clock Loop ---
     useEffect(() => {
@@ -164,7 +323,7 @@ const App: React.FC = () => {
     };
 
     const handleAddAsset = (asset: Asset) => {
-        setAssets(prev => [...prev, asset]);
+        execute(`Add Asset: ${asset.name}`, state => ({ ...state, assets: [...state.assets, asset] }));
         handleSelectAsset(asset);
     };
 
@@ -204,7 +363,7 @@ const App: React.FC = () => {
         if (!directorPrompt.trim()) return;
 
         setViewMode('EDITOR');
-        handleSetGlobalLoading(true, "Director Agent (Gemini 3 Pro): Analyzing Context & Writing Script...");
+        handleSetGlobalLoading(true, `Director Agent (${getProviderLabel('chat')}): Analyzing Context & Writing Script...`);
 
         try {
             // 1. Generate Structure with Multimodal Context
@@ -225,7 +384,7 @@ const App: React.FC = () => {
                 category: 'generated'
             };
             setCharacterAnchor(anchorAsset);
-            setAssets(prev => [...prev, anchorAsset]);
+            execute('Add Character Anchor', state => ({ ...state, assets: [...state.assets, anchorAsset] }));
 
             // 3. Visualize Frames (A & B) + AUDIO using Anchor
             const visualizedSegments: StoryboardSegment[] = [];
@@ -283,8 +442,8 @@ const App: React.FC = () => {
                 }
 
                 // Add to library
-                setAssets(prev => [...prev, assetA, assetB]);
-                if (audioAsset) setAssets(prev => [...prev, audioAsset!]);
+                const sceneAssets = audioAsset ? [assetA, assetB, audioAsset] : [assetA, assetB];
+                execute(`Add Scene ${seg.id} Assets`, state => ({ ...state, assets: [...state.assets, ...sceneAssets] }));
 
                 visualizedSegments.push({
                     ...seg,
@@ -307,17 +466,19 @@ const App: React.FC = () => {
     };
 
     const handleDirectorApprove = async (includeAudio: boolean) => {
-        handleSetGlobalLoading(true, "Veo 3.1: Batch Rendering Video & Audio...");
+        handleSetGlobalLoading(true, `${getProviderLabel('video')}: Batch Rendering Video & Audio...`);
         try {
             const newSegments: TimelineSegment[] = [];
             let currentStartFrame = segments.length > 0 ? Math.max(...segments.map(s => s.endFrame)) : 0;
+            const mainTrackId = getMainTrackId(tracks)!;
+            const audioTrackId = getAudioTrackIds(tracks)[0];
 
             for (const scene of storyboardSegments) {
                 if (!scene.imgA || !scene.imgB) continue;
 
-                handleSetGlobalLoading(true, `Veo 3.1: Rendering Video Scene ${scene.id}...`);
+                handleSetGlobalLoading(true, `${getProviderLabel('video')}: Rendering Video Scene ${scene.id}...`);
 
-                // Call Veo with Start and End frames (Consistent characters because imgA/B are consistent)
+                // Generate with Start and End frames (Consistent characters because imgA/B are consistent)
                 const videoUrl = await generateVideo(
                     scene.camera_movement || "Cinematic movement",
                     '16:9',
@@ -327,6 +488,10 @@ const App: React.FC = () => {
                     ]
                 );
 
+                // Providers return clips of different lengths, so read it rather than assume ~5s
+                const videoDuration = await getMediaDuration(videoUrl, 'video');
+                const sourceDuration = videoDuration > 0 ? videoDuration : undefined;
+
                 // Create Video Asset
                 const vidAsset: Asset = {
                     id: crypto.randomUUID(),
@@ -335,13 +500,13 @@ const App: React.FC = () => {
                     name: `Scene ${scene.id} - Final`,
                     mimeType: 'video/mp4',
                     category: 'generated',
-                    metadata: { duration: 5 } // Veo typically returns ~5s
+                    metadata: { duration: sourceDuration ?? 5 }
                 };
-                setAssets(prev => [...prev, vidAsset]);
+                execute(`Add Asset: ${vidAsset.name}`, state => ({ ...state, assets: [...state.assets, vidAsset] }));
 
                 // 1. ADD VIDEO SEGMENT
-                const duration = 5;
-                const lengthInFrames = duration * 30;
+                const duration = sourceDuration ?? 5;
+                const lengthInFrames = Math.round(secondsToFrames(duration, fps));
                 const videoSegId = crypto.randomUUID();
 
                 newSegments.push({
@@ -349,25 +514,28 @@ const App: React.FC = () => {
                     assetId: vidAsset.id,
                     assetUrl: vidAsset.url,
                     assetType: AssetType.VIDEO,
-                    trackId: TrackType.VIDEO_MAIN,
+                    trackId: mainTrackId,
                     startFrame: currentStartFrame,
                     endFrame: currentStartFrame + lengthInFrames,
                     duration: duration,
+                    sourceDuration,
                     label: `Sc ${scene.id}: ${scene.action}`,
                     isAiGenerated: true
                 });
 
                 // 2. ADD AUDIO SEGMENT (Linked) - Only if enabled in review AND user didn't disable earlier
-                if (includeAudio && scene.audio) {
+                if (includeAudio && scene.audio && audioTrackId) {
+                    const audioDuration = await getMediaDuration(scene.audio.url, 'audio');
                     newSegments.push({
                         id: crypto.randomUUID(),
                         assetId: scene.audio.id,
                         assetUrl: scene.audio.url, // Data URL or Blob
                         assetType: AssetType.AUDIO,
-                        trackId: TrackType.AUDIO,
+                        trackId: audioTrackId,
                         startFrame: currentStartFrame,
                         endFrame: currentStartFrame + lengthInFrames, // Stretch or crop to fit video?
                         duration: duration,
+                        sourceDuration: audioDuration > 0 ? audioDuration : undefined,
                         label: `VO: ${scene.action}`,
                         isAiGenerated: true,
                         linkedSegmentId: videoSegId
@@ -377,7 +545,7 @@ const App: React.FC = () => {
                 currentStartFrame += lengthInFrames;
             }
 
-            setSegments(prev => [...prev, ...newSegments]);
+            execute('Add Director Scenes', state => ({ ...state, segments: [...state.segments, ...newSegments] }));
             setViewMode('EDITOR');
             handleSetGlobalLoading(false);
             // Cleanup
@@ -393,13 +561,22 @@ const App: React.FC = () => {
 
 
     // --- Drag & Drop Logic ---
-    const handleDropAssetOnTimeline = useCallback((asset: Asset, trackId: TrackType, time: number) => {
+    const handleDropAssetOnTimeline = useCallback(async (asset: Asset, trackId: string, time: number) => {
         const segId = crypto.randomUUID();
-        const startFrame = Math.floor(time * 30);
+        const startFrame = Math.floor(secondsToFrames(time, fps));
 
-        // Use asset duration if available (e.g., imported video/audio), else default to 4s (images)
-        const duration = asset.metadata?.duration || 4;
-        const lengthInFrames = Math.ceil(duration * 30);
+        // Use the media's length (read from the file when the asset doesn't know it yet), else default to 4s (images)
+        const sourceDuration = await getSourceDuration(asset);
+        const duration = sourceDuration || 4;
+        const lengthInFrames = Math.ceil(secondsToFrames(duration, fps));
+
+        // Media lands on the dropped track when its kind matches, otherwise on the first track that fits
+        const dropTrack = tracks.find(t => t.id === trackId);
+        const videoTrackId = dropTrack?.kind === TrackKind.VIDEO ? dropTrack.id : getMainTrackId(tracks);
+        const audioTrackId = dropTrack?.kind === TrackKind.AUDIO ? dropTrack.id : getAudioTrackIds(tracks)[0];
+        const baseTrackId = asset.type === AssetType.AUDIO ? audioTrackId : videoTrackId;
+        if (!baseTrackId) return;
+        const splitAudio = asset.type === AssetType.VIDEO && !!audioTrackId;
 
         const newSegments: TimelineSegment[] = [];
 
@@ -409,40 +586,66 @@ const App: React.FC = () => {
             assetId: asset.id,
             assetUrl: asset.url, // Store URL for composition
             assetType: asset.type,
-            trackId: asset.type === AssetType.VIDEO ? TrackType.VIDEO_MAIN : trackId,
+            trackId: baseTrackId,
             startFrame: startFrame,
             endFrame: startFrame + lengthInFrames,
             duration: duration,
+            sourceDuration,
             label: asset.name,
             isAiGenerated: false,
-            linkedSegmentId: asset.type === AssetType.VIDEO ? `audio-${segId}` : undefined
+            linkedSegmentId: splitAudio ? `audio-${segId}` : undefined
         });
 
         // Auto-Split Audio for Video
-        if (asset.type === AssetType.VIDEO) {
+        if (splitAudio) {
             newSegments.push({
                 id: `audio-${segId}`,
                 assetId: asset.id,
                 assetUrl: asset.url,
-                trackId: TrackType.AUDIO,
+                trackId: audioTrackId!,
                 startFrame: startFrame,
                 endFrame: startFrame + lengthInFrames,
                 duration: duration,
+                sourceDuration,
                 label: `Audio: ${asset.name}`,
                 isAiGenerated: false,
                 linkedSegmentId: segId
             });
         }
-        setSegments(prev => [...prev, ...newSegments]);
-    }, []);
+        execute(`Add Clip: ${asset.name}`, state => ({ ...state, segments: [...state.segments, ...newSegments] }));
+    }, [execute, fps, tracks]);
+
+    const handleAddTextClip = useCallback((trackId: string, templateId: string, time: number) => {
+        const template = TEXT_TEMPLATES.find(t => t.id === templateId);
+        if (!template) return;
+        const segId = crypto.randomUUID();
+        const startFrame = Math.floor(secondsToFrames(time, fps));
+
+        // Text clips have no asset; what they draw lives in `text`
+        execute(`Add Title: ${template.label}`, state => ({
+            ...state,
+            segments: [...state.segments, {
+                id: segId,
+                assetId: '',
+                trackId,
+                startFrame,
+                endFrame: startFrame + secondsToFrames(template.duration, fps),
+                duration: template.duration,
+                label: template.clip.content.split('\n')[0],
+                isAiGenerated: false,
+                text: { ...template.clip }
+            }]
+        }));
+    }, [execute, fps]);
 
     const handleUpdateSegment = useCallback((id: string, updates: Partial<TimelineSegment>) => {
-        setSegments(prev => prev.map(s => {
+        const label = updates.startFrame !== undefined ? 'Move Clip' : 'transitionIn' in updates ? 'Edit Transition' : 'text' in updates ? 'Edit Text' : 'Edit Clip';
+        execute(label, state => ({ ...state, segments: state.segments.map((s, _, prev) => {
             if (s.id === id) {
                 const updated = { ...s, ...updates };
                 // Update End Frame if Start Changed
                 if (updates.startFrame !== undefined) {
-                    updated.endFrame = updates.startFrame + (s.duration * 30);
+                    updated.endFrame = updates.startFrame + secondsToFrames(s.duration, fps);
                 }
                 return updated;
             }
@@ -450,52 +653,312 @@ const App: React.FC = () => {
             const movedSeg = prev.find(p => p.id === id);
             if (movedSeg && movedSeg.linkedSegmentId === s.id && updates.startFrame !== undefined) {
                 const newStart = updates.startFrame;
-                return { ...s, startFrame: newStart, endFrame: newStart + (s.duration * 30) };
+                return { ...s, startFrame: newStart, endFrame: newStart + secondsToFrames(s.duration, fps) };
             }
             return s;
-        }));
-    }, []);
+        }) }));
+    }, [execute, fps]);
+
+    const handleTrimSegment = useCallback((id: string, edge: TrimEdge, deltaFrames: number) => {
+        execute('Trim Clip', state => {
+            const target = state.segments.find(s => s.id === id);
+            if (!target) return state;
+            const trimmed = trimSegment(target, edge, deltaFrames, fps);
+            // Apply the clamped delta (not the requested one) to the linked partner so A/V stays aligned
+            const appliedDelta = edge === 'start'
+                ? trimmed.startFrame - target.startFrame
+                : Math.round(secondsToFrames(trimmed.duration - target.duration, fps));
+            return {
+                ...state,
+                segments: state.segments.map(s => {
+                    if (s.id === id) return trimmed;
+                    if (s.id === target.linkedSegmentId) return trimSegment(s, edge, appliedDelta, fps);
+                    return s;
+                })
+            };
+        });
+    }, [execute, fps]);
+
+    const handleSplitAtFrame = useCallback((frame: number) => {
+        // Ids are minted outside the update so the history reducer stays pure
+        const rightId = crypto.randomUUID();
+        const partnerRightId = crypto.randomUUID();
+
+        execute('Split Clip', state => {
+            const target = findSegmentAtFrame(state.segments, state.tracks, frame);
+            if (!target) return state;
+            const halves = splitSegment(target, frame, rightId, fps);
+            if (!halves) return state;
+
+            const partner = state.segments.find(s => s.id === target.linkedSegmentId);
+            const partnerHalves = partner ? splitSegment(partner, frame, partnerRightId, fps) : null;
+
+            const replacements = new Map<string, TimelineSegment[]>();
+            if (partner && partnerHalves) {
+                // Right halves link to each other so both new pieces stay in sync
+                replacements.set(target.id, [halves[0], { ...halves[1], linkedSegmentId: partnerRightId }]);
+                replacements.set(partner.id, [partnerHalves[0], { ...partnerHalves[1], linkedSegmentId: rightId }]);
+            } else {
+                replacements.set(target.id, [halves[0], { ...halves[1], linkedSegmentId: undefined }]);
+            }
+
+            return { ...state, segments: state.segments.flatMap(s => replacements.get(s.id) || [s]) };
+        });
+    }, [execute, fps]);
 
-    const handleDropAssetOnPlayer = (asset: Asset, x: number, y: number) => {
+    const handleDropAssetOnPlayer = async (asset: Asset, x: number, y: number) => {
         // Create Overlay Segment
         const segId = crypto.randomUUID();
-        const duration = asset.metadata?.duration || 5;
-        const lengthInFrames = Math.ceil(duration * 30);
-
-        setSegments(prev => [...prev, {
-            id: segId,
-            assetId: asset.id,
-            assetUrl: asset.url,
-            trackId: TrackType.OVERLAY,
-            startFrame: Math.floor(timelineTime * 30), // Drop at current time
-            endFrame: Math.floor(timelineTime * 30) + lengthInFrames,
-            duration: duration,
-            label: `Overlay: ${asset.name}`,
-            isAiGenerated: false,
-            metadata: { overlayX: x, overlayY: y }
-        }]);
+        const sourceDuration = await getSourceDuration(asset);
+        const duration = sourceDuration || 5;
+        const lengthInFrames = Math.ceil(secondsToFrames(duration, fps));
+        const startFrame = Math.floor(secondsToFrames(timelineTime, fps)); // Drop at current time
+        const newTrackId = crypto.randomUUID();
+
+        execute(`Add Overlay: ${asset.name}`, state => {
+            // Overlays go on the first track above the main one, created if the project has none
+            const existingTrackId = getOverlayTrackIds(state.tracks)[0];
+            const tracks = existingTrackId ? state.tracks : addTrack(state.tracks, newTrackId, TrackKind.VIDEO);
+            return { ...state, tracks, segments: [...state.segments, {
+                id: segId,
+                assetId: asset.id,
+                assetUrl: asset.url,
+                assetType: asset.type,
+                trackId: existingTrackId || newTrackId,
+                startFrame,
+                endFrame: startFrame + lengthInFrames,
+                duration: duration,
+                sourceDuration,
+                label: `Overlay: ${asset.name}`,
+                isAiGenerated: false,
+                metadata: { overlayX: x, overlayY: y }
+            }] };
+        });
     };
 
     const handleUnlink = useCallback((id: string) => {
-        setSegments(prev => prev.map(s => {
+        execute('Unlink A/V', state => ({ ...state, segments: state.segments.map(s => {
             if (s.id === id || s.linkedSegmentId === id) {
                 return { ...s, linkedSegmentId: undefined };
             }
             return s;
-        }));
-    }, []);
+        }) }));
+    }, [execute]);
 
     const handleDeleteSegment = useCallback((id: string) => {
-        setSegments(prev => prev.filter(s => s.id !== id));
-    }, []);
+        execute('Delete Clip', state => ({ ...state, segments: state.segments.filter(s => s.id !== id) }));
+    }, [execute]);
+
+    // --- Track Management ---
+    const handleAddTrack = useCallback((kind: TrackKind) => {
+        const id = crypto.randomUUID();
+        const label = kind === TrackKind.VIDEO ? 'Add Video Track' : kind === TrackKind.TEXT ? 'Add Text Track' : kind === TrackKind.CAPTION ? 'Add Caption Track' : 'Add Audio Track';
+        execute(label, state => ({ ...state, tracks: addTrack(state.tracks, id, kind) }));
+    }, [execute]);
+
+    const handleRemoveTrack = useCallback((id: string) => {
+        execute('Remove Track', state => {
+            const track = state.tracks.find(t => t.id === id);
+            // Keep at least one video and one audio track so drops always have somewhere to land
+            if (!track || (isRequiredKind(track.kind) && state.tracks.filter(t => t.kind === track.kind).length <= 1)) return state;
+
+            const removedIds = new Set(state.segments.filter(s => s.trackId === id).map(s => s.id));
+            return {
+                ...state,
+                // Tracks ducking under the removed one lose their key, so ducking switches off
+                tracks: state.tracks
+                    .filter(t => t.id !== id)
+                    .map(t => t.ducking?.keyTrackId === id ? { ...t, ducking: undefined } : t),
+                segments: state.segments
+                    .filter(s => !removedIds.has(s.id))
+                    .map(s => s.linkedSegmentId && removedIds.has(s.linkedSegmentId) ? { ...s, linkedSegmentId: undefined } : s)
+            };
+        });
+    }, [execute]);
+
+    const handleUpdateTrack = useCallback((id: string, updates: Partial<Track>) => {
+        execute(updates.name !== undefined ? 'Rename Track' : 'Edit Track', state => ({
+            ...state,
+            tracks: state.tracks.map(t => t.id === id ? { ...t, ...updates } : t)
+        }));
+    }, [execute]);
+
+    const handleMoveTrack = useCallback((id: string, direction: -1 | 1) => {
+        execute('Reorder Tracks', state => ({ ...state, tracks: moveTrack(state.tracks, id, direction) }));
+    }, [execute]);
+
+    const handleAddMarker = useCallback((frame: number) => {
+        execute('Add Marker', state => state.markers.includes(frame) ? state : { ...state, markers: [...state.markers, frame].sort((a, b) => a - b) });
+    }, [execute]);
+
+    const handleRemoveMarker = useCallback((frame: number) => {
+        execute('Remove Marker', state => ({ ...state, markers: state.markers.filter(m => m !== frame) }));
+    }, [execute]);
+
+    const handleRippleDeleteSegment = useCallback((id: string) => {
+        execute('Ripple Delete', state => ({ ...state, segments: rippleDelete(state.segments, id) }));
+    }, [execute]);
+
+    const handleToggleMagnetic = useCallback(() => {
+        const enabling = !magneticTimeline;
+        setMagneticTimeline(enabling);
+        // Close existing gaps right away so the track is packed from the moment it turns on
+        if (enabling) {
+            history.execute('Close V1 Gaps', state => ({ ...state, segments: packMainTrack(state.segments, getMainTrackId(state.tracks), fps) }));
+        }
+    }, [magneticTimeline, history.execute, fps]);
+
+    // --- Project Save / Open ---
+    const handleSaveProject = async () => {
+        handleSetGlobalLoading(true, "Packaging Project...");
+        try {
+            const blob = await serializeProject({ assets, segments, tracks, storyboardSegments, characterAnchor, markers, settings });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `segmenta_project_${Date.now()}${PROJECT_FILE_EXTENSION}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (e: any) {
+            console.error(e);
+            alert(`Save Failed: ${e.message}`);
+        } finally {
+            handleSetGlobalLoading(false);
+        }
+    };
+
+    const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        handleSetGlobalLoading(true, "Opening Project...");
+        try {
+            applyProject(await deserializeProject(file));
+        } catch (e: any) {
+            console.error(e);
+            alert(`Open Failed: ${e.message}`);
+        } finally {
+            handleSetGlobalLoading(false);
+        }
+    };
+
+    // Finds the subject in every main-track clip and lays down auto keyframes for one reframed aspect, as a single undo step
+    const handleAutoReframe = async (aspect: string) => {
+        const mainTrackId = getMainTrackId(tracks);
+        const clips = segments.filter(s => s.trackId === mainTrackId && s.assetUrl);
+        if (clips.length === 0) return;
+
+        try {
+            const analysed = new Map<string, ReframeKeyframe[]>();
+            for (let i = 0; i < clips.length; i++) {
+                const seg = clips[i];
+                handleSetGlobalLoading(true, `Auto-Reframe ${aspect}: Tracking subject in clip ${i + 1}/${clips.length} "${seg.label}"...`);
+                const times = getReframeSampleTimes(seg);
+                const frames = await captureFrames(seg.assetUrl!, seg.assetType, times);
+                const centers = await analyzeSubjectCenters(frames);
+                analysed.set(seg.id, times.map((time, j) => ({ time, ...centers[j] })));
+            }
+            execute(`Auto Reframe ${aspect}`, state => ({
+                ...state,
+                segments: state.segments.map(s => analysed.has(s.id) ? { ...s, reframe: mergeAutoKeyframes(s, aspect, analysed.get(s.id)!) } : s)
+            }));
+        } catch (e: any) {
+            console.error(e);
+            alert(`Auto-Reframe Error: ${e.message}`);
+        } finally {
+            handleSetGlobalLoading(false);
+        }
+    };
+
+    // Captions follow the asset's clips on the timeline, so it has to be placed before transcribing
+    const handleTranscribeAsset = async (asset: Asset) => {
+        const clips = getCaptionSourceClips(segments, tracks, asset.id);
+        if (clips.length === 0) {
+            alert(`Add "${asset.name}" to the timeline first; captions are placed where its clips play.`);
+            return;
+        }
+
+        handleSetGlobalLoading(true, `Transcribing "${asset.name}"...`);
+        try {
+            const base64 = asset.base64 || await blobUrlToBase64(asset.url);
+            const cues = buildCaptionCues(await transcribeAudio(base64, asset.mimeType));
+            if (cues.length === 0) {
+                alert("No speech was found to caption.");
+                return;
+            }
+
+            const existingTrackId = getCaptionTrackIds(tracks)[0];
+            const trackId = existingTrackId || crypto.randomUUID();
+            const captions = clips.flatMap(clip => placeCaptions(cues, clip, trackId, fps, () => crypto.randomUUID()));
+            const overlapsClip = (s: TimelineSegment) => clips.some(c => s.startFrame < c.endFrame && s.endFrame > c.startFrame);
+
+            // Transcribing again replaces the captions over the same clips
+            execute(`Add Captions: ${asset.name}`, state => ({
+                ...state,
+                tracks: existingTrackId ? state.tracks : addTrack(state.tracks, trackId, TrackKind.CAPTION, 'C1 Captions'),
+                segments: [...state.segments.filter(s => s.trackId !== trackId || !overlapsClip(s)), ...captions]
+            }));
+        } catch (e: any) {
+            console.error(e);
+            alert(`Transcription Error: ${e.message}`);
+        } finally {
+            handleSetGlobalLoading(false);
+        }
+    };
+
+    const handleImportCaptions = (trackId: string, fileName: string, content: string) => {
+        try {
+            const captions = placeTimelineCaptions(parseSubtitles(content), trackId, fps, () => crypto.randomUUID());
+            const overlapsImport = (s: TimelineSegment) => captions.some(c => s.startFrame < c.endFrame && s.endFrame > c.startFrame);
+
+            // Imported cues replace the captions they land on
+            execute(`Import Captions: ${fileName}`, state => ({
+                ...state,
+                segments: [...state.segments.filter(s => s.trackId !== trackId || !overlapsImport(s)), ...captions]
+            }));
+        } catch (e: any) {
+            alert(`Import Failed: ${e.message}`);
+        }
+    };
 
     const handleCheckContinuity = async (segA: TimelineSegment, segB: TimelineSegment) => {
         alert("Continuity Check: Use Gemini to analyze frames from these URLs.");
     }
 
     // --- RENDER BLOCKING AUTH SCREEN ---
-    if (checkingKey) {
-        return <div className="h-screen bg-black flex items-center justify-center text-white font-light tracking-widest animate-pulse">Initializing Studio...</div>;
+    if (checkingKey || checkingSession || isRestoring) {
+        return <div className="h-screen bg-black flex items-center justify-center text-white font-light tracking-widest animate-pulse">{isRestoring ? 'Restoring Session...' : 'Initializing Studio...'}</div>;
+    }
+
+    if (recoverableSession) {
+        return (
+            <div className="h-screen bg-black flex flex-col items-center justify-center text-white p-6 gap-8">
+                <div className="font-light tracking-widest animate-pulse">Initializing Studio...</div>
+                <div className="max-w-md w-full bg-white/5 backdrop-blur-2xl border border-white/10 p-6 rounded-2xl shadow-2xl text-center">
+                    <h2 className="text-lg font-bold mb-1">Restore last session?</h2>
+                    <p className="text-xs text-gray-400 mb-6 font-mono">
+                        Autosaved {new Date(recoverableSession.savedAt).toLocaleString()} &middot; {recoverableSession.project.assets.length} assets &middot; {recoverableSession.project.segments.length} clips
+                    </p>
+                    <div className="flex gap-3 justify-center">
+                        <button
+                            onClick={handleDiscardSession}
+                            className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white text-sm transition-all"
+                        >
+                            Start Fresh
+                        </button>
+                        <button
+                            onClick={handleRestoreSession}
+                            className="px-6 py-2.5 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-xl text-sm transition-colors shadow-lg shadow-emerald-500/20"
+                        >
+                            Restore Session
+                        </button>
+                    </div>
+                </div>
+            </div>
+        );
     }
 
     if (!hasKey) {
@@ -538,6 +1001,12 @@ const App: React.FC = () => {
                                 </button>
                             </div>
                         </div>
+                        <button
+                            onClick={handleContinueOffline}
+                            className="w-full text-xs text-gray-400 hover:text-white py-2 transition-colors"
+                        >
+                            Continue offline with mock generation
+                        </button>
                     </div>
 
                     <div className="mt-8 pt-6 border-t border-white/5 text-xs text-gray-500">
@@ -670,6 +1139,41 @@ const App: React.FC = () => {
                     </div>
                 </div>
                 <div className="flex items-center gap-6">
+                    {/* Edit History */}
+                    <div className="flex gap-1 relative">
+                        <button
+                            onClick={undo}
+                            disabled={!history.canUndo}
+                            className="p-2 rounded-lg text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                            title="Undo (Ctrl+Z)"
+                        >
+                            <ArrowUturnLeftIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={!history.canRedo}
+                            className="p-2 rounded-lg text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                            title="Redo (Ctrl+Shift+Z)"
+                        >
+                            <ArrowUturnRightIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setShowHistory(!showHistory)}
+                            className={`p-2 rounded-lg transition-colors ${showHistory ? 'bg-white/10 text-emerald-400' : 'text-gray-300 hover:bg-white/10 hover:text-white'}`}
+                            title="History"
+                        >
+                            <ClockIcon className="w-4 h-4" />
+                        </button>
+                        {showHistory && (
+                            <HistoryPanel
+                                entries={history.entries}
+                                position={history.position}
+                                onJump={history.jumpTo}
+                                onClose={() => setShowHistory(false)}
+                            />
+                        )}
+                    </div>
+
                     <div className="flex gap-2">
                         {/* Director Mode Button */}
                         <button
@@ -680,6 +1184,37 @@ const App: React.FC = () => {
                             Director Mode
                         </button>
 
+                        <button
+                            onClick={() => projectInputRef.current?.click()}
+                            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white px-4 py-2 rounded-lg text-xs font-bold transition-colors border border-white/5 backdrop-blur-sm"
+                        >
+                            <FolderOpenIcon className="w-4 h-4" />
+                            Open
+                        </button>
+                        <button
+                            onClick={handleSaveProject}
+                            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white px-4 py-2 rounded-lg text-xs font-bold transition-colors border border-white/5 backdrop-blur-sm"
+                        >
+                            <DocumentArrowDownIcon className="w-4 h-4" />
+                            Save
+                        </button>
+                        <input
+                            type="file"
+                            ref={projectInputRef}
+                            className="hidden"
+                            accept={PROJECT_FILE_EXTENSION}
+                            onChange={handleOpenProject}
+                        />
+
+                        <button
+                            onClick={() => setShowSettingsModal(true)}
+                            className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white px-4 py-2 rounded-lg text-xs font-bold transition-colors border border-white/5 backdrop-blur-sm"
+                            title="Project Settings"
+                        >
+                            <Cog6ToothIcon className="w-4 h-4" />
+                            {settings.height}p{settings.fps}
+                        </button>
+
                         <button className="flex items-center gap-2 bg-white/5 hover:bg-white/10 text-white px-4 py-2 rounded-lg text-xs font-bold transition-colors border border-white/5 backdrop-blur-sm">
                             <ShareIcon className="w-4 h-4" />
                             Share
@@ -690,6 +1225,9 @@ const App: React.FC = () => {
                         >
                             <ArrowDownTrayIcon className="w-4 h-4" />
                             Export
+                            {renderQueue.activeCount > 0 && (
+                                <span className="bg-black/80 text-emerald-300 rounded-full px-1.5 py-0.5 text-[9px] font-mono animate-pulse">{renderQueue.activeCount}</span>
+                            )}
                         </button>
                     </div>
                 </div>
@@ -701,7 +1239,7 @@ const App: React.FC = () => {
                     assets={assets}
                     onSelectAsset={handleSelectAsset}
                     onAddAsset={handleAddAsset}
-                    setGlobalLoading={handleSetGlobalLoading}
+                    onTranscribe={handleTranscribeAsset}
                 />
 
                 <div className="flex-1 flex flex-col min-w-0 border-r border-white/5 bg-black/20 backdrop-blur-sm">
@@ -709,22 +1247,42 @@ const App: React.FC = () => {
                         mode={playbackMode}
                         activeAsset={activeAsset}
                         timelineTime={timelineTime}
+                        fps={fps}
                         isPlaying={isTimelinePlaying}
                         segments={segments}
+                        tracks={tracks}
                         onTogglePlay={toggleTimelinePlay}
                         onSeek={handleSeek}
                         onCaptureFrame={handleCaptureFrame}
                         onUpdateMask={setMaskData}
                         onDropAssetOnFrame={handleDropAssetOnPlayer}
+                        onUpdateSegment={handleUpdateSegment}
+                        onAutoReframe={handleAutoReframe}
                     />
                     <Timeline
                         currentTime={timelineTime}
+                        fps={fps}
                         segments={segments}
+                        tracks={tracks}
+                        onAddTrack={handleAddTrack}
+                        onRemoveTrack={handleRemoveTrack}
+                        onUpdateTrack={handleUpdateTrack}
+                        onMoveTrack={handleMoveTrack}
                         onCheckContinuity={handleCheckContinuity}
                         onDropAsset={handleDropAssetOnTimeline}
+                        onAddTextClip={handleAddTextClip}
+                        onImportCaptions={handleImportCaptions}
                         onDeleteSegment={handleDeleteSegment}
+                        onRippleDeleteSegment={handleRippleDeleteSegment}
+                        isMagnetic={magneticTimeline}
+                        markers={markers}
+                        onAddMarker={handleAddMarker}
+                        onRemoveMarker={handleRemoveMarker}
+                        onToggleMagnetic={handleToggleMagnetic}
                         onUnlinkSegment={handleUnlink}
                         onUpdateSegment={handleUpdateSegment}
+                        onTrimSegment={handleTrimSegment}
+                        onSplitAtFrame={handleSplitAtFrame}
                         onSeek={handleSeek}
                     />
                 </div>
@@ -732,12 +1290,25 @@ const App: React.FC = () => {
                 <PropertyPanel
                     activeAsset={activeAsset}
                     onAddAsset={handleAddAsset}
-                    setGlobalLoading={handleSetGlobalLoading}
+                    onTranscribe={handleTranscribeAsset}
                 />
             </div>
 
             <ChatAssistant />
-            {showRenderModal && <RenderModal segments={segments} assets={assets} onClose={() => setShowRenderModal(false)} />}
+            {showRenderModal && (
+                <RenderModal
+                    segments={segments}
+                    tracks={tracks}
+                    settings={settings}
+                    jobs={renderQueue.jobs}
+                    onEnqueue={(label, options) => renderQueue.enqueue(label, { segments, tracks, assets, settings }, options)}
+                    onCancel={renderQueue.cancel}
+                    onRetry={renderQueue.retry}
+                    onRemove={renderQueue.remove}
+                    onClose={() => setShowRenderModal(false)}
+                />
+            )}
+            {showSettingsModal && <ProjectSettingsModal settings={settings} providers={providers} onApply={handleApplySettings} onClose={() => setShowSettingsModal(false)} />}
 
             {isLoading && viewMode !== 'STORYBOARD_REVIEW' && (
                 <div className="fixed inset-0 bg-black/80 z-[60] flex flex-col items-center justify-center backdrop-blur-md">
@@ -3,16 +3,15 @@ import React, { useRef, useCallback } from 'react';
 import { Asset, AssetType } from '../types';
 import { VideoCameraIcon, PhotoIcon, MusicalNoteIcon, CloudArrowUpIcon, DocumentTextIcon, Square2StackIcon, SparklesIcon, BeakerIcon } from '@heroicons/react/24/outline';
 import { fileToBase64 } from '../utils/helpers';
-import { transcribeAudio } from '../services/geminiService';
 
 interface AssetPanelProps {
   assets: Asset[];
   onSelectAsset: (asset: Asset) => void;
   onAddAsset: (asset: Asset) => void;
-  setGlobalLoading: (loading: boolean, msg?: string) => void;
+  onTranscribe: (asset: Asset) => void; // Captions the asset's clips on the timeline
 }
 
-const AssetPanel: React.FC<AssetPanelProps> = ({ assets, onSelectAsset, onAddAsset, setGlobalLoading }) => {
+const AssetPanel: React.FC<AssetPanelProps> = ({ assets, onSelectAsset, onAddAsset, onTranscribe }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const processFile = async (file: File) => {
@@ -81,20 +80,6 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, onSelectAsset, onAddAss
       e.dataTransfer.effectAllowed = "copy";
   };
 
-  const handleTranscribe = async (asset: Asset) => {
-    if (asset.type !== AssetType.AUDIO) return;
-    setGlobalLoading(true, "Transcribing Audio...");
-    try {
-        const text = await transcribeAudio(asset.base64 || "", asset.mimeType);
-        alert(`Transcription:\n\n${text}`);
-    } catch (e) {
-        console.error(e);
-        alert("Transcription failed.");
-    } finally {
-        setGlobalLoading(false);
-    }
-  }
-
   // --- Group Assets ---
   const generatedAssets = assets.filter(a => a.category === 'generated');
   const surgicalAssets = assets.filter(a => a.category === 'surgical');
@@ -127,11 +112,11 @@ const AssetPanel: React.FC<AssetPanelProps> = ({ assets, onSelectAsset, onAddAss
               </div>
             </div>
             {/* Quick Actions overlay */}
-            {asset.type === AssetType.AUDIO && (
+            {asset.type !== AssetType.IMAGE && (
                 <button 
-                    onClick={(e) => { e.stopPropagation(); handleTranscribe(asset); }}
+                    onClick={(e) => { e.stopPropagation(); onTranscribe(asset); }}
                     className="absolute right-2 top-2 p-1 bg-black/60 rounded text-emerald-400 opacity-0 group-hover:opacity-100 transition-opacity hover:scale-110"
-                    title="Transcribe"
+                    title="Transcribe to Captions"
                 >
                     <DocumentTextIcon className="w-3 h-3" />
                 </button>
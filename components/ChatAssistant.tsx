@@ -1,7 +1,7 @@
 
 import React, { useState } from 'react';
 import { ChatBubbleLeftRightIcon, XMarkIcon, PaperAirplaneIcon } from '@heroicons/react/24/solid';
-import { sendMessageToAssistant } from '../services/geminiService';
+import { sendMessageToAssistant } from '../services/generationService';
 
 const ChatAssistant: React.FC = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Track, DuckingSettings } from '../types';
+import { DEFAULT_DUCKING } from '../utils/audioGain';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+
+interface DuckingPanelProps {
+  track: Track;
+  keyCandidates: Track[]; // Other audio tracks that can trigger the duck, likeliest VO track first
+  position: { x: number; y: number }; // Viewport anchor (fixed positioning escapes the timeline's scroll clip)
+  onChange: (ducking: DuckingSettings | undefined) => void;
+  onClose: () => void;
+}
+
+const DuckingPanel: React.FC<DuckingPanelProps> = ({ track, keyCandidates, position, onChange, onClose }) => {
+  // Slider moves stay local until release, so a drag is one undo step rather than dozens
+  const [draft, setDraft] = useState<DuckingSettings | null>(null);
+  const ducking = draft || track.ducking;
+
+  const commitDraft = () => {
+    if (!draft) return;
+    onChange(draft);
+    setDraft(null);
+  };
+
+  const renderSlider = (label: string, value: number, min: number, max: number, step: number, unit: string, key: 'depth' | 'attack' | 'release') => (
+    <label className="block">
+      <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-emerald-300">{value}{unit}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step} value={value}
+        disabled={!ducking}
+        onChange={(e) => ducking && setDraft({ ...ducking, [key]: parseFloat(e.target.value) })}
+        onMouseUp={commitDraft}
+        onTouchEnd={commitDraft}
+        onKeyUp={commitDraft}
+        className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer disabled:opacity-30 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2 [&::-webkit-slider-thumb]:h-2 [&::-webkit-slider-thumb]:bg-emerald-500 [&::-webkit-slider-thumb]:rounded-full"
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed w-60 bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl z-[70] backdrop-blur-xl overflow-hidden"
+      style={{ left: position.x, top: position.y }}
+    >
+      <div className="px-3 py-2 border-b border-white/5 flex justify-between items-center">
+        <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider truncate">Duck {track.name}</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold text-white">Duck under dialogue</span>
+          <button
+            onClick={() => onChange(ducking ? undefined : { ...DEFAULT_DUCKING, keyTrackId: keyCandidates[0].id })}
+            className={`w-10 h-5 rounded-full relative transition-colors ${ducking ? 'bg-emerald-500' : 'bg-gray-700'}`}
+          >
+            <div className={`w-3 h-3 bg-white rounded-full absolute top-1 transition-all ${ducking ? 'left-6' : 'left-1'}`}></div>
+          </button>
+        </div>
+        <label className="block">
+          <span className="block text-[10px] text-gray-400 mb-1">Duck under</span>
+          <select
+            value={ducking?.keyTrackId || ''}
+            onChange={(e) => ducking && onChange({ ...ducking, keyTrackId: e.target.value })}
+            disabled={!ducking}
+            className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-white outline-none focus:border-emerald-500 disabled:opacity-30"
+          >
+            {keyCandidates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        </label>
+        {renderSlider('Depth', ducking?.depth ?? DEFAULT_DUCKING.depth, 3, 30, 1, ' dB', 'depth')}
+        {renderSlider('Attack', ducking?.attack ?? DEFAULT_DUCKING.attack, 10, 1000, 10, ' ms', 'attack')}
+        {renderSlider('Release', ducking?.release ?? DEFAULT_DUCKING.release, 50, 3000, 50, ' ms', 'release')}
+      </div>
+    </div>
+  );
+};
+
+export default DuckingPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { EditCommand } from '../utils/editHistory';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+
+interface HistoryPanelProps {
+  entries: EditCommand[];
+  position: number; // Number of entries currently applied
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, position, onJump, onClose }) => {
+  const renderRow = (label: string, target: number, timestamp?: number) => {
+    const isCurrent = target === position;
+    const isUndone = target > position;
+    return (
+      <button
+        key={target}
+        onClick={() => onJump(target)}
+        className={`w-full flex justify-between items-center gap-2 px-3 py-1.5 rounded-lg text-left text-xs transition-colors
+          ${isCurrent ? 'bg-emerald-500/20 text-emerald-300 border border-emerald-500/30' :
+            isUndone ? 'text-gray-600 hover:bg-white/5 border border-transparent' : 'text-gray-300 hover:bg-white/5 border border-transparent'}`}
+      >
+        <span className="truncate">{label}</span>
+        {timestamp && <span className="text-[9px] font-mono opacity-60 shrink-0">{new Date(timestamp).toLocaleTimeString()}</span>}
+      </button>
+    );
+  };
+
+  return (
+    <div className="absolute top-full right-0 mt-2 w-72 bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl z-50 backdrop-blur-xl overflow-hidden">
+      <div className="px-3 py-2 border-b border-white/5 flex justify-between items-center">
+        <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider">History</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="max-h-80 overflow-y-auto p-2 gap-0.5 custom-scrollbar flex flex-col-reverse">
+        {/* Newest first: the list is reversed visually so recent edits sit at the top */}
+        {renderRow('Initial State', 0)}
+        {entries.map((entry, i) => renderRow(entry.label, i + 1, entry.timestamp))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,7 +1,14 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { Asset, AssetType, TimelineSegment, TrackType, PlaybackMode } from '../types';
-import { CameraIcon, PlayIcon, PauseIcon, PaintBrushIcon, CursorArrowRaysIcon } from '@heroicons/react/24/solid';
+import { Asset, AssetType, TimelineSegment, Track, PlaybackMode, TransitionType } from '../types';
+import { getSourceIn } from '../utils/timeline';
+import { getMainTrackId, getOverlayTrackIds, getTextTrackIds, getCaptionTrackIds } from '../utils/tracks';
+import { gainAt } from '../utils/audioGain';
+import { getTextMotion, toRgba, TEXT_MAX_WIDTH, LINE_HEIGHT, BOX_PADDING } from '../utils/textClips';
+import { useAudioMixer } from '../utils/audioMixer';
+import { getTrackTransitions, getTransitionAt } from '../utils/transitions';
+import { REFRAME_ASPECTS, ReframeCenter, parseAspect, getReframeKeyframes, getReframeCenter, getCropSize, clampCenter, setReframeKeyframe } from '../utils/reframe';
+import { CameraIcon, PlayIcon, PauseIcon, PaintBrushIcon, CursorArrowRaysIcon, SparklesIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
 
 interface PlayerPanelProps {
   mode: PlaybackMode;
@@ -9,30 +16,73 @@ interface PlayerPanelProps {
   activeAsset: Asset | null;
   // Timeline Mode Props
   timelineTime: number;
+  fps: number;
   isPlaying: boolean;
   segments: TimelineSegment[];
+  tracks: Track[];
   onTogglePlay: () => void;
   onSeek: (time: number) => void;
   // Common Props
   onCaptureFrame: (frameData: string) => void;
   onUpdateMask: (maskBase64: string | null) => void;
   onDropAssetOnFrame: (asset: Asset, x: number, y: number) => void;
+  // Reframe Props
+  onUpdateSegment: (id: string, updates: Partial<TimelineSegment>) => void;
+  onAutoReframe: (aspect: string) => void;
 }
 
+// Where an overlay sits: centred on its drop point, no wider than 30% of the frame (as the export places it)
+const getOverlayStyle = (seg: TimelineSegment): React.CSSProperties => ({
+    left: `${(seg.metadata?.overlayX ?? 0.5) * 100}%`,
+    top: `${(seg.metadata?.overlayY ?? 0.5) * 100}%`,
+    transform: 'translate(-50%, -50%)',
+    maxWidth: '30%'
+});
+
+// A video clip on an overlay track, kept in step with the timeline like the main video
+const OverlayVideo: React.FC<{ seg: TimelineSegment; timelineTime: number; fps: number; isPlaying: boolean }> = ({ seg, timelineTime, fps, isPlaying }) => {
+  const ref = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+      const video = ref.current;
+      if (!video) return;
+      const localTime = timelineTime - (seg.startFrame / fps) + getSourceIn(seg);
+      if (Math.abs(video.currentTime - localTime) > 0.3) {
+          video.currentTime = localTime;
+      }
+      if (isPlaying) video.play().catch(() => {});
+      else video.pause();
+  }, [seg, timelineTime, fps, isPlaying]);
+
+  return (
+      <video
+          ref={ref}
+          src={seg.assetUrl}
+          className="absolute z-20 pointer-events-none drop-shadow-xl"
+          style={getOverlayStyle(seg)}
+          muted
+      />
+  );
+};
+
 const PlayerPanel: React.FC<PlayerPanelProps> = ({ 
     mode, 
     activeAsset, 
     timelineTime,
+    fps,
     isPlaying,
     segments,
+    tracks,
     onTogglePlay,
     onSeek,
     onCaptureFrame, 
     onUpdateMask, 
-    onDropAssetOnFrame 
+    onDropAssetOnFrame,
+    onUpdateSegment,
+    onAutoReframe
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const transitionVideoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const maskCanvasRef = useRef<HTMLCanvasElement>(null);
   
@@ -48,15 +98,32 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
   // We separate Main Video Track into "Video Segment" or "Image Segment"
   const [activeVideoSeg, setActiveVideoSeg] = useState<TimelineSegment | null>(null);
   const [activeMainImageSeg, setActiveMainImageSeg] = useState<TimelineSegment | null>(null);
-  const [activeOverlaySeg, setActiveOverlaySeg] = useState<TimelineSegment | null>(null);
-  const [activeAudioSeg, setActiveAudioSeg] = useState<TimelineSegment | null>(null);
+  const [activeOverlaySegs, setActiveOverlaySegs] = useState<TimelineSegment[]>([]); // Bottom track first
+  const [activeTextSegs, setActiveTextSegs] = useState<TimelineSegment[]>([]); // Bottom track first
+  const [showCaptions, setShowCaptions] = useState(true);
+  // Inside a transition window: the other clip of the pair, drawn over or beside the one under the playhead
+  const [transitionView, setTransitionView] = useState<{ partner: TimelineSegment; type: TransitionType; progress: number; partnerIsIncoming: boolean } | null>(null);
+
+  // --- REFRAME STATE ---
+  // null shows the master frame; an aspect previews that reframed version and lets the crop be dragged
+  const [reframeAspect, setReframeAspect] = useState<string | null>(null);
+  const [videoRatio, setVideoRatio] = useState(16 / 9);
+  const [imageRatio, setImageRatio] = useState(16 / 9);
+  const [reframeDrag, setReframeDrag] = useState<{ startX: number; startY: number; origin: ReframeCenter; boxWidth: number; boxHeight: number } | null>(null);
+  const [reframeDraft, setReframeDraft] = useState<ReframeCenter | null>(null);
+
+  // Every audio-track clip plays through the Web Audio mixer, in step with the master clock
+  useAudioMixer({ segments, tracks, fps, timelineTime, isPlaying: mode === 'TIMELINE' && isPlaying });
 
   useEffect(() => {
       if (mode === 'TIMELINE') {
-          const currentFrame = timelineTime * 30;
+          const currentFrame = timelineTime * fps;
           
-          // 1. Resolve MAIN TRACK (V1)
-          const mainSeg = segments.find(s => s.trackId === TrackType.VIDEO_MAIN && currentFrame >= s.startFrame && currentFrame < s.endFrame) || null;
+          const isActive = (s: TimelineSegment) => currentFrame >= s.startFrame && currentFrame < s.endFrame;
+
+          // 1. Resolve MAIN TRACK (first video track)
+          const mainTrackId = getMainTrackId(tracks);
+          const mainSeg = segments.find(s => s.trackId === mainTrackId && isActive(s)) || null;
           
           if (mainSeg?.assetType === AssetType.VIDEO) {
               setActiveVideoSeg(mainSeg);
@@ -69,17 +136,22 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
               setActiveMainImageSeg(null);
           }
 
-          // 2. Resolve OVERLAY TRACK (V2)
-          const ovl = segments.find(s => s.trackId === TrackType.OVERLAY && currentFrame >= s.startFrame && currentFrame < s.endFrame) || null;
-          setActiveOverlaySeg(ovl);
+          // 1b. Resolve TRANSITION (the cut's window reaches into both clips)
+          const transition = getTransitionAt(getTrackTransitions(segments, mainTrackId), timelineTime, fps);
+          const partnerIsIncoming = transition?.outgoing.id === mainSeg?.id;
+          const partner = transition ? (partnerIsIncoming ? transition.incoming : transition.outgoing) : null;
+          setTransitionView(transition && partner ? { partner, type: transition.transition.type, progress: transition.progress, partnerIsIncoming } : null);
+
+          // 2. Resolve OVERLAY TRACKS (every video track above the main one)
+          setActiveOverlaySegs(getOverlayTrackIds(tracks).flatMap(trackId => segments.filter(s => s.trackId === trackId && isActive(s))));
 
-          // 3. Resolve AUDIO TRACK (A1)
-          const aud = segments.find(s => s.trackId === TrackType.AUDIO && currentFrame >= s.startFrame && currentFrame < s.endFrame) || null;
-          setActiveAudioSeg(aud);
+          // 3. Resolve TEXT TRACKS (titles draw above every video track, captions above the titles)
+          const textTrackIds = [...getTextTrackIds(tracks), ...(showCaptions ? getCaptionTrackIds(tracks) : [])];
+          setActiveTextSegs(textTrackIds.flatMap(trackId => segments.filter(s => s.trackId === trackId && s.text && isActive(s))));
 
           // --- SYNC VIDEO ELEMENT ---
           if (videoRef.current && mainSeg?.assetType === AssetType.VIDEO && mainSeg.assetUrl) {
-              const localTime = timelineTime - (mainSeg.startFrame / 30);
+              const localTime = timelineTime - (mainSeg.startFrame / fps) + getSourceIn(mainSeg);
               
               if (!videoRef.current.src.includes(mainSeg.assetUrl)) {
                   videoRef.current.src = mainSeg.assetUrl;
@@ -99,23 +171,24 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
               if (!activeVideoSeg) videoRef.current.src = ""; 
           }
 
-          // --- SYNC AUDIO ELEMENT ---
-          if (audioRef.current && aud && aud.assetUrl) {
-              const localTime = timelineTime - (aud.startFrame / 30);
-              if (!audioRef.current.src.includes(aud.assetUrl)) {
-                  audioRef.current.src = aud.assetUrl;
-                  audioRef.current.load();
+          // The partner plays from before its in point (or past its out point), as the export's handles do
+          const partnerVideo = transitionVideoRef.current;
+          if (partnerVideo && partner?.assetType === AssetType.VIDEO && partner.assetUrl) {
+              const localTime = Math.max(0, timelineTime - (partner.startFrame / fps) + getSourceIn(partner));
+              if (!partnerVideo.src.includes(partner.assetUrl)) {
+                  partnerVideo.src = partner.assetUrl;
+                  partnerVideo.load();
               }
-               if (Math.abs(audioRef.current.currentTime - localTime) > 0.3) {
-                  audioRef.current.currentTime = localTime;
+              if (Math.abs(partnerVideo.currentTime - localTime) > 0.3) {
+                  partnerVideo.currentTime = localTime;
               }
-              if (isPlaying) audioRef.current.play().catch(() => {});
-              else audioRef.current.pause();
-          } else if (audioRef.current) {
-              audioRef.current.pause();
+              if (isPlaying) partnerVideo.play().catch(() => {});
+              else partnerVideo.pause();
+          } else if (partnerVideo) {
+              partnerVideo.pause();
           }
       }
-  }, [mode, timelineTime, segments, isPlaying]);
+  }, [mode, timelineTime, fps, segments, tracks, isPlaying, showCaptions]);
 
 
   // --- ASSET MODE LOGIC ---
@@ -209,6 +282,101 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
       }
   }
 
+  // --- REFRAME ---
+  const reframeSeg = mode === 'TIMELINE' && reframeAspect ? (activeVideoSeg || activeMainImageSeg) : null;
+  const reframeSourceTime = reframeSeg ? timelineTime - reframeSeg.startFrame / fps + getSourceIn(reframeSeg) : 0;
+  const reframeCrop = reframeSeg && reframeAspect
+      ? getCropSize(reframeSeg === activeVideoSeg ? videoRatio : imageRatio, parseAspect(reframeAspect))
+      : null;
+  const reframeCenter = reframeSeg && reframeAspect && reframeCrop
+      ? clampCenter(reframeDraft || getReframeCenter(getReframeKeyframes(reframeSeg, reframeAspect), reframeSourceTime), reframeCrop)
+      : null;
+
+  // Cropped preview: the media box takes the target aspect and object-position pans the cover-fitted picture
+  const getReframeStyle = (): React.CSSProperties | undefined => {
+      if (!reframeAspect || !reframeCrop || !reframeCenter) return undefined;
+      const toPosition = (center: number, size: number) => size < 1 ? (center - size / 2) / (1 - size) : 0.5;
+      return {
+          aspectRatio: reframeAspect.replace(':', ' / '),
+          height: 'calc(100% - 48px)',
+          width: 'auto',
+          objectFit: 'cover',
+          objectPosition: `${toPosition(reframeCenter.x, reframeCrop.w) * 100}% ${toPosition(reframeCenter.y, reframeCrop.h) * 100}%`,
+          cursor: 'move'
+      };
+  };
+
+  // --- TRANSITION PREVIEW ---
+  // CSS stand-ins for the export's xfade transitions, split between the clip under the playhead and its partner
+  const getTransitionStyles = (): { main?: React.CSSProperties; partner?: React.CSSProperties; matte?: React.CSSProperties } => {
+      if (mode !== 'TIMELINE' || !transitionView) return {};
+      const { type, progress, partnerIsIncoming } = transitionView;
+      switch (type) {
+          case 'crossfade':
+              return { partner: { opacity: partnerIsIncoming ? progress : 1 - progress } };
+          case 'dipToBlack':
+          case 'dipToWhite':
+              // Out to the colour over the first half, back in over the second
+              return { matte: { backgroundColor: type === 'dipToBlack' ? '#000' : '#fff', opacity: 1 - Math.abs(2 * progress - 1) } };
+          case 'slide': {
+              const outgoing = { translate: `${-progress * 100}% 0` };
+              const incoming = { translate: `${(1 - progress) * 100}% 0` };
+              return partnerIsIncoming ? { main: outgoing, partner: incoming } : { main: incoming, partner: outgoing };
+          }
+          case 'wipe':
+              // The edge sweeps right to left, uncovering the incoming clip behind it
+              return { partner: { clipPath: partnerIsIncoming ? `inset(0 0 0 ${(1 - progress) * 100}%)` : `inset(0 ${progress * 100}% 0 0)` } };
+      }
+  };
+  const transitionStyles = getTransitionStyles();
+  const showPartner = !!transitionStyles.partner && !!transitionView?.partner.assetUrl;
+
+  // The partner fills the same box as the main picture; in a reframe preview it is simply centre-cropped
+  const partnerClassName = `absolute z-[15] pointer-events-none ${reframeAspect ? 'top-0 left-1/2 -translate-x-1/2' : 'inset-0 w-full h-full object-contain'}`;
+  const partnerStyle: React.CSSProperties = {
+      ...(reframeAspect ? { aspectRatio: reframeAspect.replace(':', ' / '), height: 'calc(100% - 48px)', width: 'auto', objectFit: 'cover' } : {}),
+      ...transitionStyles.partner
+  };
+
+  const startReframeDrag = (e: React.MouseEvent) => {
+      if (!reframeCenter || isMaskMode) return;
+      e.preventDefault();
+      const rect = e.currentTarget.getBoundingClientRect();
+      setReframeDrag({ startX: e.clientX, startY: e.clientY, origin: reframeCenter, boxWidth: rect.width, boxHeight: rect.height });
+  };
+
+  // Dragging pans the picture under the crop; releasing drops a manual keyframe at the playhead
+  useEffect(() => {
+      if (!reframeDrag || !reframeSeg || !reframeAspect || !reframeCrop) return;
+      let latest: ReframeCenter = reframeDrag.origin;
+      const handleMove = (e: MouseEvent) => {
+          latest = clampCenter({
+              x: reframeDrag.origin.x - ((e.clientX - reframeDrag.startX) / reframeDrag.boxWidth) * reframeCrop.w,
+              y: reframeDrag.origin.y - ((e.clientY - reframeDrag.startY) / reframeDrag.boxHeight) * reframeCrop.h
+          }, reframeCrop);
+          setReframeDraft(latest);
+      };
+      const handleUp = () => {
+          onUpdateSegment(reframeSeg.id, {
+              reframe: setReframeKeyframe(reframeSeg, reframeAspect, { time: reframeSourceTime, x: latest.x, y: latest.y, manual: true })
+          });
+          setReframeDrag(null);
+          setReframeDraft(null);
+      };
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('mouseup', handleUp);
+      return () => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('mouseup', handleUp);
+      };
+  }, [reframeDrag]);
+
+  const handleResetReframe = () => {
+      if (!reframeSeg || !reframeAspect) return;
+      const { [reframeAspect]: _, ...rest } = reframeSeg.reframe || {};
+      onUpdateSegment(reframeSeg.id, { reframe: rest });
+  };
+
   const displayTime = mode === 'TIMELINE' ? timelineTime : assetModeTime;
   const displayDuration = mode === 'TIMELINE' ? 60 : assetDuration;
   const displayPlaying = mode === 'TIMELINE' ? isPlaying : assetModePlaying;
@@ -223,8 +391,8 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
         onDragOver={(e) => e.preventDefault()}
       >
         
-        {/* VIEWPORT */}
-        <div className="relative w-full h-full flex items-center justify-center bg-transparent">
+        {/* VIEWPORT (a size container, so titles scale with it like they do with the export frame) */}
+        <div className="relative w-full h-full flex items-center justify-center bg-transparent" style={{ containerType: 'size' }}>
             
             {/* 1. ASSET MODE PREVIEW */}
             {mode === 'ASSET' && activeAsset?.type === AssetType.IMAGE && (
@@ -236,7 +404,11 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
                 <img 
                     src={activeMainImageSeg.assetUrl} 
                     alt="Main Slide" 
-                    className="absolute inset-0 w-full h-full object-contain"
+                    className={reframeAspect ? 'absolute top-0 left-1/2 -translate-x-1/2' : 'absolute inset-0 w-full h-full object-contain'}
+                    style={{ ...getReframeStyle(), ...transitionStyles.main }}
+                    onLoad={(e) => setImageRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+                    onMouseDown={startReframeDrag}
+                    draggable={false}
                 />
             )}
 
@@ -252,28 +424,75 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
                     if (mode === 'ASSET' && videoRef.current) setAssetModeTime(videoRef.current.currentTime);
                 }}
                 onLoadedMetadata={() => {
-                    if (mode === 'ASSET' && videoRef.current) setAssetDuration(videoRef.current.duration);
+                    if (!videoRef.current) return;
+                    if (mode === 'ASSET') setAssetDuration(videoRef.current.duration);
+                    if (videoRef.current.videoHeight) setVideoRatio(videoRef.current.videoWidth / videoRef.current.videoHeight);
                 }}
-                onClick={mode === 'ASSET' ? toggleAssetPlay : onTogglePlay}
+                style={mode === 'TIMELINE' ? { ...getReframeStyle(), ...transitionStyles.main } : undefined}
+                onMouseDown={mode === 'TIMELINE' ? startReframeDrag : undefined}
+                // While reframing a click is the end of a drag, so only the transport toggles playback
+                onClick={mode === 'ASSET' ? toggleAssetPlay : reframeAspect ? undefined : onTogglePlay}
                 muted={mode === 'TIMELINE'} 
             />
             
-            <audio ref={audioRef} className="hidden" />
+            {/* 4. TRANSITION PARTNER (the other clip while a transition plays) */}
+            {showPartner && transitionView?.partner.assetType === AssetType.IMAGE && (
+                <img src={transitionView.partner.assetUrl} alt="" className={partnerClassName} style={partnerStyle} draggable={false} />
+            )}
+            <video
+                ref={transitionVideoRef}
+                className={`${partnerClassName} ${showPartner && transitionView?.partner.assetType === AssetType.VIDEO ? 'block' : 'hidden'}`}
+                style={partnerStyle}
+                muted
+            />
+            {transitionStyles.matte && (
+                <div className="absolute inset-0 z-[16] pointer-events-none" style={transitionStyles.matte}></div>
+            )}
 
-            {/* 5. OVERLAY LAYER */}
-            {mode === 'TIMELINE' && activeOverlaySeg && activeOverlaySeg.assetUrl && (
+            {/* 5. OVERLAY LAYERS (later tracks stack on top) */}
+            {mode === 'TIMELINE' && activeOverlaySegs.filter(seg => seg.assetUrl).map(seg => seg.assetType === AssetType.VIDEO ? (
+                 <OverlayVideo key={seg.id} seg={seg} timelineTime={timelineTime} fps={fps} isPlaying={isPlaying} />
+            ) : (
                  <img 
-                    src={activeOverlaySeg.assetUrl} 
+                    key={seg.id}
+                    src={seg.assetUrl} 
                     className="absolute z-20 pointer-events-none drop-shadow-xl"
-                    style={{
-                        left: `${(activeOverlaySeg.metadata?.overlayX || 0.5) * 100}%`,
-                        top: `${(activeOverlaySeg.metadata?.overlayY || 0.5) * 100}%`,
-                        transform: 'translate(-50%, -50%)',
-                        maxWidth: '30%'
-                    }}
+                    style={getOverlayStyle(seg)}
                     alt="Overlay"
                  />
-            )}
+            ))}
+
+            {/* 5b. TITLES (text tracks; motion follows the same curves the export uses) */}
+            {mode === 'TIMELINE' && activeTextSegs.map(seg => {
+                const clip = seg.text!;
+                const localTime = timelineTime - seg.startFrame / fps;
+                const motion = getTextMotion(clip, seg.duration);
+                const hasBox = !!clip.boxColor && clip.boxOpacity > 0;
+                return (
+                    <div
+                        key={seg.id}
+                        className="absolute z-[25] pointer-events-none whitespace-pre-wrap text-center"
+                        style={{
+                            left: `${(clip.x + gainAt(motion.x, localTime)) * 100}%`,
+                            top: `${(clip.y + gainAt(motion.y, localTime)) * 100}%`,
+                            transform: 'translate(-50%, -50%)',
+                            opacity: gainAt(motion.opacity, localTime),
+                            maxWidth: `${TEXT_MAX_WIDTH * 100}%`,
+                            fontFamily: `"${clip.fontFamily}", sans-serif`,
+                            fontWeight: clip.bold ? 'bold' : 'normal',
+                            fontSize: `${clip.fontSize * 100}cqmin`,
+                            lineHeight: LINE_HEIGHT,
+                            color: clip.color,
+                            padding: `${BOX_PADDING}em`,
+                            borderRadius: '0.2em',
+                            backgroundColor: hasBox ? toRgba(clip.boxColor!, clip.boxOpacity) : undefined,
+                            textShadow: hasBox ? undefined : '0 0 0.15em rgba(0, 0, 0, 0.6)'
+                        }}
+                    >
+                        {clip.content}
+                    </div>
+                );
+            })}
 
             {/* 6. MASK LAYER */}
             {isMaskMode && (
@@ -330,6 +549,16 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
             </div>
 
             <div className="h-6 w-[1px] bg-white/10 mx-2"></div>
+
+            {mode === 'TIMELINE' && (
+                <button
+                    onClick={() => setShowCaptions(!showCaptions)}
+                    className={`px-2 py-1 rounded text-xs font-bold border transition-all ${showCaptions ? 'bg-white/90 text-black border-white' : 'bg-white/5 text-gray-400 border-white/10 hover:bg-white/10'}`}
+                    title={showCaptions ? 'Hide captions' : 'Show captions'}
+                >
+                    CC
+                </button>
+            )}
             
             <button 
                 onClick={() => setIsMaskMode(!isMaskMode)} 
@@ -357,6 +586,43 @@ const PlayerPanel: React.FC<PlayerPanelProps> = ({
               Source: {activeAsset ? activeAsset.name : "None"}
           </div>
       </div>
+
+      {/* Reframe Controls */}
+      {mode === 'TIMELINE' && (
+          <div className="absolute top-4 right-4 flex items-center gap-2 z-50">
+              <div className="flex bg-black/60 border border-white/10 rounded-full p-0.5 backdrop-blur-md shadow-lg">
+                  {[null, ...REFRAME_ASPECTS].map(aspect => (
+                      <button
+                          key={aspect || 'master'}
+                          onClick={() => setReframeAspect(aspect)}
+                          className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${reframeAspect === aspect ? 'bg-emerald-500 text-black' : 'text-gray-400 hover:text-white'}`}
+                      >
+                          {aspect || 'Master'}
+                      </button>
+                  ))}
+              </div>
+              {reframeAspect && (
+                  <>
+                      <button
+                          onClick={() => onAutoReframe(reframeAspect)}
+                          className="flex items-center gap-1 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider bg-purple-500/80 hover:bg-purple-500 text-white shadow-lg backdrop-blur-md transition-colors"
+                          title={`Track the subject in every main-track clip for ${reframeAspect} (manual keyframes are kept)`}
+                      >
+                          <SparklesIcon className="w-3 h-3" /> Auto
+                      </button>
+                      {reframeSeg && (
+                          <button
+                              onClick={handleResetReframe}
+                              className="flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-mono bg-black/60 border border-white/10 text-gray-400 hover:text-white backdrop-blur-md transition-colors"
+                              title="Clear this clip's reframe keyframes"
+                          >
+                              <ArrowPathIcon className="w-3 h-3" /> {getReframeKeyframes(reframeSeg, reframeAspect).length} kf
+                          </button>
+                      )}
+                  </>
+              )}
+          </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+import { ProjectSettings, ProviderSelection } from '../types';
+import { FRAME_RATE_OPTIONS, RESOLUTION_PRESETS, PIXEL_ASPECT_OPTIONS } from '../utils/projectSettings';
+import { PROVIDER_CAPABILITIES, getProvidersFor } from '../services/generationService';
+
+interface ProjectSettingsModalProps {
+    settings: ProjectSettings;
+    providers: ProviderSelection; // Kept by the browser across visits; not saved with the project
+    onApply: (settings: ProjectSettings, providers: ProviderSelection) => void;
+    onClose: () => void;
+}
+
+const ProjectSettingsModal: React.FC<ProjectSettingsModalProps> = ({ settings, providers, onApply, onClose }) => {
+    const [draft, setDraft] = useState<ProjectSettings>(settings);
+    const [providerDraft, setProviderDraft] = useState<ProviderSelection>(providers);
+
+    const activePreset = RESOLUTION_PRESETS.find(p => p.width === draft.width && p.height === draft.height);
+    const fpsChanged = draft.fps !== settings.fps;
+    // libx264 with yuv420p needs even dimensions
+    const isValid = draft.width >= 16 && draft.height >= 16 && draft.width % 2 === 0 && draft.height % 2 === 0;
+
+    const update = (changes: Partial<ProjectSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const handleApply = () => {
+        if (!isValid) return;
+        onApply(draft, providerDraft);
+        onClose();
+    };
+
+    const optionClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${active ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' : 'text-gray-300 bg-white/5 border-white/10 hover:bg-white/10 hover:text-white'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center backdrop-blur-sm">
+            <div className="w-[440px] max-h-[90vh] overflow-y-auto custom-scrollbar bg-gray-900/95 border border-white/10 rounded-2xl p-6 shadow-2xl relative backdrop-blur-xl overflow-hidden">
+                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-emerald-500 via-purple-500 to-emerald-500"></div>
+
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-xl font-bold text-white">Project Settings</h3>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="space-y-5">
+                    {/* Frame Rate */}
+                    <div>
+                        <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Frame Rate</label>
+                        <div className="flex gap-2">
+                            {FRAME_RATE_OPTIONS.map(fps => (
+                                <button key={fps} onClick={() => update({ fps })} className={optionClass(draft.fps === fps)}>
+                                    {fps} fps
+                                </button>
+                            ))}
+                        </div>
+                        {fpsChanged && (
+                            <p className="text-[10px] text-yellow-200/80 mt-2">
+                                Clips and markers keep their timing, to the nearest frame.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Resolution */}
+                    <div>
+                        <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Resolution</label>
+                        <div className="flex gap-2 mb-3">
+                            {RESOLUTION_PRESETS.map(preset => (
+                                <button
+                                    key={preset.label}
+                                    onClick={() => update({ width: preset.width, height: preset.height })}
+                                    className={optionClass(activePreset === preset)}
+                                >
+                                    {preset.label}
+                                </button>
+                            ))}
+                            <span className={optionClass(!activePreset)}>Custom</span>
+                        </div>
+                        <div className="flex items-center gap-2 font-mono text-sm">
+                            <input
+                                type="number"
+                                value={draft.width}
+                                onChange={(e) => update({ width: parseInt(e.target.value, 10) || 0 })}
+                                className="w-24 bg-black/40 border border-white/10 rounded px-3 py-2 text-white focus:border-emerald-500 outline-none transition-colors"
+                            />
+                            <span className="text-gray-500">×</span>
+                            <input
+                                type="number"
+                                value={draft.height}
+                                onChange={(e) => update({ height: parseInt(e.target.value, 10) || 0 })}
+                                className="w-24 bg-black/40 border border-white/10 rounded px-3 py-2 text-white focus:border-emerald-500 outline-none transition-colors"
+                            />
+                        </div>
+                        {!isValid && <p className="text-[10px] text-red-400 mt-2">Width and height must be even numbers of at least 16.</p>}
+                    </div>
+
+                    {/* Pixel Aspect */}
+                    <div>
+                        <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Pixel Aspect</label>
+                        <div className="flex gap-2">
+                            {PIXEL_ASPECT_OPTIONS.map(option => (
+                                <button key={option.value} onClick={() => update({ pixelAspect: option.value })} className={optionClass(draft.pixelAspect === option.value)}>
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Generation Providers */}
+                    <div>
+                        <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Generation Providers</label>
+                        <div className="space-y-1.5">
+                            {PROVIDER_CAPABILITIES.map(({ capability, label }) => (
+                                <div key={capability} className="flex items-center gap-2">
+                                    <span className="w-24 shrink-0 text-[10px] text-gray-400">{label}</span>
+                                    {getProvidersFor(capability).map(provider => (
+                                        <button
+                                            key={provider.id}
+                                            onClick={() => setProviderDraft(prev => ({ ...prev, [capability]: provider.id }))}
+                                            className={optionClass(providerDraft[capability] === provider.id)}
+                                        >
+                                            {provider.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-2">Offline Mock makes placeholder media locally, with no key or network.</p>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-3 mt-8">
+                    <button onClick={onClose} className="px-6 py-2 text-gray-400 hover:text-white transition-colors text-sm">Cancel</button>
+                    <button
+                        onClick={handleApply}
+                        disabled={!isValid}
+                        className="px-6 py-2 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-lg text-sm transition-colors shadow-lg shadow-emerald-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProjectSettingsModal;
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Asset, AssetType } from '../types';
-import { generateImage, editImage, analyzeVideo, generateVideo, enhancePrompt, refinePromptWithMultimodalContext } from '../services/geminiService';
+import { generateImage, editImage, analyzeVideo, generateVideo, enhancePrompt, refinePromptWithMultimodalContext, getProviderLabel } from '../services/generationService';
 import { SparklesIcon, PaintBrushIcon, PhotoIcon, FilmIcon, PlayCircleIcon, MagnifyingGlassIcon, ViewfinderCircleIcon, DocumentDuplicateIcon, XMarkIcon, ArrowRightIcon } from '@heroicons/react/24/solid';
 
 interface PropertyPanelProps {
@@ -91,13 +91,13 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ activeAsset, onAddAsset,
       // --- STEP 1: Multimodal Refinement ---
       let effectivePrompt = prompt;
       if (contextAssets.length > 0 && (mode === 'generate' || mode === 'video')) {
-           setGlobalLoading(true, "Gemini 3 Pro: Analyzing References...");
+           setGlobalLoading(true, `${getProviderLabel('chat')}: Analyzing References...`);
            effectivePrompt = await refinePromptWithMultimodalContext(prompt, contextAssets);
       }
 
       if (mode === 'generate') {
         if (!effectivePrompt) return;
-        setGlobalLoading(true, `Generating Image with Gemini 2.5 Flash...`);
+        setGlobalLoading(true, `Generating Image with ${getProviderLabel('image')}...`);
         const base64 = await generateImage(effectivePrompt);
         const res = await fetch(base64);
         const blob = await res.blob();
@@ -114,7 +114,7 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ activeAsset, onAddAsset,
 
       } else if (mode === 'edit' && activeAsset) {
         if (!prompt) return;
-        setGlobalLoading(true, "Nano Banana: Surgical Editing...");
+        setGlobalLoading(true, `${getProviderLabel('edit')}: Surgical Editing...`);
         const base64Input = activeAsset.base64 || ""; 
         const resultBase64 = await editImage(base64Input, activeAsset.mimeType, prompt);
         const res = await fetch(resultBase64);
@@ -134,7 +134,7 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ activeAsset, onAddAsset,
 
       } else if (mode === 'video') {
         if (!effectivePrompt) return;
-        setGlobalLoading(true, "Generating Video with Veo 3.1...");
+        setGlobalLoading(true, `Generating Video with ${getProviderLabel('video')}...`);
         
         // Pass first image context as Veo image input if available
         const firstImage = contextAssets.find(a => a.type === AssetType.IMAGE);
@@ -162,7 +162,7 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ activeAsset, onAddAsset,
          if (startFrame.base64) frames.push({ mimeType: startFrame.mimeType, data: startFrame.base64 });
          if (endFrame?.base64) frames.push({ mimeType: endFrame.mimeType, data: endFrame.base64 });
 
-         setGlobalLoading(true, `Veo 3.1: Interpolating ${frames.length > 1 ? 'A \u2192 B' : 'Motion'}...`);
+         setGlobalLoading(true, `${getProviderLabel('video')}: Interpolating ${frames.length > 1 ? 'A \u2192 B' : 'Motion'}...`);
          
          const videoUrl = await generateVideo(prompt || "Animate this scene naturally", aspectRatio, frames);
 
@@ -178,7 +178,7 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ activeAsset, onAddAsset,
          
       } else if (mode === 'analyze' && activeAsset) {
         if (!prompt) return;
-        setGlobalLoading(true, "Analyzing with Gemini 3 Pro...");
+        setGlobalLoading(true, `Analyzing with ${getProviderLabel('analyze')}...`);
         if(!activeAsset.base64) throw new Error("No data");
         const result = await analyzeVideo(activeAsset.base64, activeAsset.mimeType, prompt);
         alert(`Analysis:\n\n${result}`);
@@ -1,172 +1,359 @@
-
-import React, { useEffect, useState, useRef } from 'react';
-import { CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/solid';
-import { TimelineSegment, Asset } from '../types';
-import { renderTimeline } from '../services/ffmpegService';
+import React, { useState } from 'react';
+import { CheckCircleIcon, ExclamationCircleIcon, XMarkIcon, ArrowPathIcon, ArrowDownTrayIcon, TrashIcon, QueueListIcon, StopIcon, NoSymbolIcon } from '@heroicons/react/24/solid';
+import { TimelineSegment, Track, ProjectSettings, LoudnessTarget, ExportPreset, RenderJob, RenderOptions } from '../types';
+import { LOUDNESS_TARGETS, DEFAULT_LOUDNESS_TARGET, formatLufs } from '../utils/loudness';
+import { EXPORT_PRESETS, VIDEO_CODEC_LABELS, getProjectPreset } from '../utils/exportPresets';
+import { isReframeAspect } from '../utils/reframe';
+import { framesToSeconds, secondsToFrames } from '../utils/projectSettings';
+import { getCaptionTrackIds } from '../utils/tracks';
+import { cropToRange } from '../utils/timeline';
+import { CAPTION_PRESETS, getTrackCues } from '../utils/captions';
+import { formatSubtitles, SubtitleFormat } from '../utils/subtitles';
+import { clearRenderCache } from '../services/renderCache';
 
 interface RenderModalProps {
     segments: TimelineSegment[];
-    assets: Asset[];
+    tracks: Track[];
+    settings: ProjectSettings;
+    jobs: RenderJob[];
+    onEnqueue: (label: string, options: RenderOptions) => void;
+    onCancel: (id: string) => void;
+    onRetry: (id: string) => void;
+    onRemove: (id: string) => void;
     onClose: () => void;
 }
 
-const RenderModal: React.FC<RenderModalProps> = ({ segments, assets, onClose }) => {
-    const [progress, setProgress] = useState(0);
-    const [stage, setStage] = useState('Initializing...');
-    const [state, setState] = useState<'rendering' | 'done' | 'error'>('rendering');
-    const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-    const [error, setError] = useState<string>('');
-    const [logs, setLogs] = useState<string[]>(['[init] Segmenta Export Engine v1.0']);
-    const renderStarted = useRef(false);
-    const logsEndRef = useRef<HTMLDivElement>(null);
-
-    useEffect(() => {
-        if (renderStarted.current) return;
-        renderStarted.current = true;
-
-        const handleProgress = (p: number, s: string) => {
-            setProgress(Math.min(p * 100, 100));
-            setStage(s);
-            setLogs(prev => [...prev.slice(-50), `[${(p * 100).toFixed(0).padStart(3, ' ')}%] ${s}`]);
-        };
-
-        renderTimeline(segments, assets, handleProgress)
-            .then(url => {
-                setDownloadUrl(url);
-                setState('done');
-                setProgress(100);
-            })
-            .catch(err => {
-                console.error('[RenderModal] Export error:', err);
-                setError(err.message || 'An unknown error occurred during export.');
-                setState('error');
-            });
-    }, [segments, assets]);
-
-    // Auto-scroll logs
-    useEffect(() => {
-        logsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [logs]);
-
-    const handleDownload = () => {
-        if (!downloadUrl) return;
+const RenderModal: React.FC<RenderModalProps> = ({ segments, tracks, settings, jobs, onEnqueue, onCancel, onRetry, onRemove, onClose }) => {
+    const projectPreset = getProjectPreset(settings);
+    const [preset, setPreset] = useState<ExportPreset>(projectPreset);
+    const [reframe, setReframe] = useState(true);
+    const canReframe = isReframeAspect(preset.aspect);
+    const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTarget | null>(DEFAULT_LOUDNESS_TARGET);
+    const [useRange, setUseRange] = useState(false);
+    const timelineEnd = framesToSeconds(Math.max(0, ...segments.map(s => s.endFrame)), settings.fps);
+    const [rangeStart, setRangeStart] = useState(0);
+    const [rangeEnd, setRangeEnd] = useState(Number(timelineEnd.toFixed(2)));
+    const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+    const [cacheCleared, setCacheCleared] = useState(false);
+    const captionTracks = tracks.filter(t => getCaptionTrackIds(tracks).includes(t.id));
+    const [captionTrackId, setCaptionTrackId] = useState(captionTracks[0]?.id || '');
+    const [burnInPresetId, setBurnInPresetId] = useState<string | null>(null); // null leaves captions out of the picture
+
+    const isRangeValid = !useRange || (rangeStart >= 0 && rangeEnd > rangeStart);
+
+    const buildOptions = (target: ExportPreset): RenderOptions => ({
+        preset: target,
+        reframe: isReframeAspect(target.aspect) && reframe,
+        loudness: loudnessTarget,
+        range: useRange
+            ? { startFrame: Math.round(secondsToFrames(rangeStart, settings.fps)), endFrame: Math.round(secondsToFrames(rangeEnd, settings.fps)) }
+            : null,
+        captions: burnInPresetId && captionTrackId ? { trackId: captionTrackId, presetId: burnInPresetId } : null
+    });
+
+    const buildLabel = (target: ExportPreset) =>
+        `${target.id === 'project' ? 'Project' : target.aspect} ${target.label}${useRange ? ` (${rangeStart.toFixed(1)}s-${rangeEnd.toFixed(1)}s)` : ''}${burnInPresetId && captionTrackId ? ' + Captions' : ''}`;
+
+    const handleEnqueue = () => {
+        if (!isRangeValid) return;
+        onEnqueue(buildLabel(preset), buildOptions(preset));
+    };
+
+    // One job per platform placement, all sharing the loudness/range/reframe choices
+    const handleEnqueueAllFormats = () => {
+        if (!isRangeValid) return;
+        EXPORT_PRESETS.forEach(p => onEnqueue(buildLabel(p), buildOptions(p)));
+    };
+
+    const handleClearCache = async () => {
+        await clearRenderCache();
+        setCacheCleared(true);
+    };
+
+    const downloadFile = (url: string, fileName: string) => {
         const link = document.createElement('a');
-        link.href = downloadUrl;
-        link.download = `segmenta_export_${Date.now()}.mp4`;
+        link.href = url;
+        link.download = fileName;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
     };
 
-    const fileSizeMB = downloadUrl ? '—' : '0';
+    // Sidecar files share the MP4's name, so players that look for subtitles next to the video find them
+    const getExportName = (job: RenderJob) => `segmenta_export_${job.options.preset.id}_${job.id.slice(0, 8)}`;
 
-    return (
-        <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center backdrop-blur-sm">
-            <div className="w-[540px] bg-gray-900/95 border border-white/10 rounded-2xl p-6 shadow-2xl relative backdrop-blur-xl overflow-hidden">
-                {/* Gradient accent bar */}
-                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-emerald-500 via-purple-500 to-emerald-500"></div>
+    const handleDownload = (job: RenderJob) => {
+        if (!job.result) return;
+        downloadFile(job.result.url, `${getExportName(job)}.mp4`);
+    };
 
-                {/* ─── RENDERING STATE ─── */}
-                {state === 'rendering' && (
-                    <>
-                        <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-3">
+    // The captions of the edit the job rendered (its burned-in track, else the one picked above), timed against its range
+    const getJobCues = (job: RenderJob) => {
+        const { segments: jobSegments, settings: jobSettings } = job.input;
+        const { range } = job.options;
+        const rendered = range ? cropToRange(jobSegments, range.startFrame, range.endFrame, jobSettings.fps) : jobSegments;
+        return getTrackCues(rendered, job.options.captions?.trackId || captionTrackId, jobSettings.fps);
+    };
+
+    const handleDownloadSubtitles = (job: RenderJob, format: SubtitleFormat) => {
+        const url = URL.createObjectURL(new Blob([formatSubtitles(getJobCues(job), format)], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }));
+        downloadFile(url, `${getExportName(job)}.${format}`);
+        URL.revokeObjectURL(url);
+    };
+
+    const optionClass = (active: boolean) =>
+        `rounded-lg border transition-colors ${active ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' : 'text-gray-300 bg-white/5 border-white/10 hover:bg-white/10 hover:text-white'}`;
+
+    const renderJob = (job: RenderJob) => {
+        const isExpanded = expandedJobId === job.id;
+        return (
+            <div key={job.id} className="bg-black/40 border border-white/5 rounded-xl p-3">
+                <div className="flex items-center gap-3">
+                    <div className="w-4 shrink-0">
+                        {job.status === 'done' && <CheckCircleIcon className="w-4 h-4 text-emerald-500" />}
+                        {job.status === 'error' && <ExclamationCircleIcon className="w-4 h-4 text-red-500" />}
+                        {job.status === 'rendering' && (
                             <span className="relative flex h-3 w-3">
                                 <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
                                 <span className="relative inline-flex rounded-full h-3 w-3 bg-red-500"></span>
                             </span>
-                            Rendering Timeline
-                        </h3>
-
-                        <div className="space-y-4">
-                            {/* Progress label */}
-                            <div className="flex justify-between text-xs text-gray-400 font-mono">
-                                <span className="truncate mr-4 max-w-[380px]">{stage}</span>
-                                <span className="text-emerald-400 font-bold">{Math.floor(progress)}%</span>
-                            </div>
-
-                            {/* Progress bar */}
-                            <div className="h-2.5 bg-black/60 rounded-full overflow-hidden border border-white/5">
-                                <div
-                                    className="h-full bg-gradient-to-r from-emerald-500 to-emerald-400 transition-all duration-500 ease-out rounded-full relative"
-                                    style={{ width: `${Math.max(progress, 1)}%` }}
-                                >
-                                    <div className="absolute inset-0 bg-white/20 animate-pulse rounded-full"></div>
-                                </div>
-                            </div>
-
-                            {/* Log terminal */}
-                            <div className="h-44 bg-black/70 rounded-xl border border-white/5 p-3 font-mono text-[10px] text-emerald-400/80 overflow-y-auto custom-scrollbar backdrop-blur-sm">
-                                {logs.map((log, i) => (
-                                    <div key={i} className="leading-relaxed opacity-80 hover:opacity-100 transition-opacity">{log}</div>
-                                ))}
-                                <div ref={logsEndRef} className="text-emerald-500 animate-pulse">▊</div>
-                            </div>
-
-                            {/* Cancel hint */}
-                            <p className="text-[10px] text-gray-600 text-center">
-                                FFmpeg WASM is processing in your browser. This may take a moment.
-                            </p>
-                        </div>
-                    </>
-                )}
+                        )}
+                        {job.status === 'queued' && <span className="block w-3 h-3 rounded-full border border-white/20"></span>}
+                        {job.status === 'cancelled' && <NoSymbolIcon className="w-4 h-4 text-gray-500" />}
+                    </div>
 
-                {/* ─── DONE STATE ─── */}
-                {state === 'done' && (
-                    <div className="text-center py-8">
-                        <div className="relative inline-block mb-4">
-                            <CheckCircleIcon className="w-16 h-16 text-emerald-500" />
-                            <div className="absolute inset-0 w-16 h-16 rounded-full bg-emerald-500/20 animate-ping"></div>
+                    <button onClick={() => setExpandedJobId(isExpanded ? null : job.id)} className="flex-1 min-w-0 text-left" title="Show logs">
+                        <div className="text-xs font-bold text-white truncate">{job.label}</div>
+                        <div className={`text-[10px] font-mono truncate ${job.status === 'error' ? 'text-red-300' : 'text-gray-500'}`}>
+                            {job.status === 'error' ? job.error : job.stage}
                         </div>
-                        <h3 className="text-2xl font-bold text-white mb-2">Export Complete</h3>
-                        <p className="text-gray-400 text-sm mb-6">
-                            Your timeline has been rendered and is ready to download.
-                        </p>
-                        <div className="flex gap-3 justify-center">
-                            <button
-                                onClick={onClose}
-                                className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white text-sm transition-all hover:scale-[1.02]"
-                            >
-                                Close
+                    </button>
+
+                    <span className="text-[10px] font-mono text-emerald-400 font-bold w-9 text-right">{Math.floor(job.progress * 100)}%</span>
+
+                    <div className="flex gap-1">
+                        {job.status === 'done' && (
+                            <button onClick={() => handleDownload(job)} className="p-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-400 text-black transition-colors" title="Download MP4">
+                                <ArrowDownTrayIcon className="w-3.5 h-3.5" />
                             </button>
+                        )}
+                        {job.status === 'done' && getJobCues(job).length > 0 && (['srt', 'vtt'] as SubtitleFormat[]).map(format => (
                             <button
-                                onClick={handleDownload}
-                                className="px-6 py-2.5 bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-400 hover:to-emerald-500 text-black font-bold rounded-xl text-sm transition-all shadow-lg shadow-emerald-500/30 hover:scale-[1.02]"
+                                key={format}
+                                onClick={() => handleDownloadSubtitles(job, format)}
+                                className="px-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[9px] font-bold uppercase text-gray-300 hover:text-white transition-colors"
+                                title={`Download captions as ${format.toUpperCase()}`}
                             >
-                                Download MP4
+                                {format}
                             </button>
-                        </div>
+                        ))}
+                        {(job.status === 'queued' || job.status === 'rendering') && (
+                            <button onClick={() => onCancel(job.id)} className="p-1.5 rounded-lg bg-white/5 hover:bg-red-500/20 text-gray-300 hover:text-red-400 transition-colors" title="Cancel Render">
+                                <StopIcon className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {(job.status === 'done' || job.status === 'error' || job.status === 'cancelled') && (
+                            <button onClick={() => onRetry(job.id)} className="p-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 hover:text-white transition-colors" title="Render Again">
+                                <ArrowPathIcon className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                        {job.status !== 'rendering' && job.status !== 'queued' && (
+                            <button onClick={() => onRemove(job.id)} className="p-1.5 rounded-lg bg-white/5 hover:bg-red-500/20 text-gray-500 hover:text-red-400 transition-colors" title="Remove">
+                                <TrashIcon className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Progress bar */}
+                {(job.status === 'rendering' || job.status === 'queued') && (
+                    <div className="h-1.5 mt-2 bg-black/60 rounded-full overflow-hidden border border-white/5">
+                        <div
+                            className="h-full bg-gradient-to-r from-emerald-500 to-emerald-400 transition-all duration-500 ease-out rounded-full"
+                            style={{ width: `${Math.max(job.progress * 100, 1)}%` }}
+                        ></div>
                     </div>
                 )}
 
-                {/* ─── ERROR STATE ─── */}
-                {state === 'error' && (
-                    <div className="text-center py-8">
-                        <ExclamationCircleIcon className="w-16 h-16 text-red-500 mx-auto mb-4" />
-                        <h3 className="text-2xl font-bold text-white mb-2">Export Failed</h3>
-                        <p className="text-red-300 text-xs mb-6 font-mono bg-red-500/10 p-3 rounded-lg border border-red-500/20 text-left max-h-24 overflow-y-auto">
-                            {error}
-                        </p>
+                {job.result?.loudness && (
+                    <div className="mt-2 flex gap-4 text-[10px] font-mono text-gray-400">
+                        <span>Loudness ({job.result.loudness.target.integrated} LUFS target)</span>
+                        <span>{formatLufs(job.result.loudness.before)} → <span className="text-emerald-300">{formatLufs(job.result.loudness.after)}</span></span>
+                        <span>TP {job.result.loudness.truePeakAfter.toFixed(1)} dBTP</span>
+                    </div>
+                )}
+
+                {job.result?.warnings?.map((warning, i) => (
+                    <div key={i} className="mt-2 flex items-center gap-1.5 text-[10px] text-yellow-300">
+                        <ExclamationCircleIcon className="w-3.5 h-3.5 shrink-0" />
+                        <span>{warning}</span>
+                    </div>
+                ))}
+
+                {/* Log terminal */}
+                {isExpanded && (
+                    <div className="mt-2 h-32 bg-black/70 rounded-lg border border-white/5 p-2 font-mono text-[10px] text-emerald-400/80 overflow-y-auto custom-scrollbar">
+                        {job.logs.length === 0 && <div className="text-gray-600">Waiting to start...</div>}
+                        {job.logs.map((log, i) => (
+                            <div key={i} className="leading-relaxed">{log}</div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center backdrop-blur-sm">
+            <div className="w-[640px] max-h-[90vh] flex flex-col bg-gray-900/95 border border-white/10 rounded-2xl p-6 shadow-2xl relative backdrop-blur-xl overflow-hidden">
+                {/* Gradient accent bar */}
+                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-emerald-500 via-purple-500 to-emerald-500"></div>
 
-                        {/* Show logs for debugging */}
-                        <details className="text-left mb-4">
-                            <summary className="text-xs text-gray-500 cursor-pointer hover:text-gray-300 transition-colors">Show debug logs</summary>
-                            <div className="mt-2 h-32 bg-black/60 rounded-lg p-2 font-mono text-[10px] text-gray-500 overflow-y-auto custom-scrollbar">
-                                {logs.map((log, i) => (
-                                    <div key={i}>{log}</div>
-                                ))}
-                            </div>
-                        </details>
-
-                        <div className="flex gap-3 justify-center">
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-xl font-bold text-white">Export Timeline</h3>
+                    <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" title="Close (queued renders keep running)">
+                        <XMarkIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* ─── NEW JOB ─── */}
+                <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Format</label>
+                <div className="grid grid-cols-5 gap-2 mb-2">
+                    {[projectPreset, ...EXPORT_PRESETS].map(p => {
+                        // Thumbnail frame in the preset's shape, fitted into a 32px box
+                        const scale = 32 / Math.max(p.width, p.height);
+                        return (
                             <button
-                                onClick={onClose}
-                                className="px-6 py-2.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-white text-sm transition-all"
+                                key={p.id}
+                                onClick={() => setPreset(p)}
+                                className={`flex flex-col items-center gap-1.5 px-1 py-2 ${optionClass(preset.id === p.id)}`}
+                                title={p.label}
                             >
-                                Close
+                                <div className="h-8 flex items-center">
+                                    <div className="border-2 border-current rounded-sm" style={{ width: p.width * scale, height: p.height * scale }}></div>
+                                </div>
+                                <span className="text-[10px] font-bold">{p.id === 'project' ? 'Project' : p.aspect}</span>
                             </button>
+                        );
+                    })}
+                </div>
+                <div className="mb-5 space-y-3">
+                    <p className="text-[10px] text-gray-500">
+                        {preset.label}: {preset.width}x{preset.height} @ {preset.fps ?? settings.fps}fps, {VIDEO_CODEC_LABELS[preset.videoCodec]} {preset.videoBitrate / 1000} Mbps
+                    </p>
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                        <input type="checkbox" checked={reframe} onChange={(e) => setReframe(e.target.checked)} className="accent-emerald-500" />
+                        Reframe to fill in 9:16 and 1:1 (crop each clip using its reframe keyframes)
+                        {!canReframe && <span className="text-gray-600">(not used for this format)</span>}
+                    </label>
+                </div>
+
+                <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Loudness Target</label>
+                <div className="grid grid-cols-4 gap-2 mb-5">
+                    {[null, ...LOUDNESS_TARGETS].map(target => (
+                        <button
+                            key={target?.id || 'off'}
+                            onClick={() => setLoudnessTarget(target)}
+                            className={`px-2 py-2 text-[10px] font-bold text-left ${optionClass(loudnessTarget?.id === target?.id)}`}
+                            title={target ? `Two-pass normalization to ${target.integrated} LUFS, peaks limited to ${target.truePeak} dBTP` : 'Export at the mixed level'}
+                        >
+                            {target ? target.label : 'Off (keep mix level)'}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="block text-[10px] font-bold text-white/50 uppercase tracking-wider mb-2">Range</label>
+                <div className="flex items-center gap-2 mb-2 text-xs">
+                    <button onClick={() => setUseRange(false)} className={`px-3 py-1.5 font-bold ${optionClass(!useRange)}`}>Full Timeline</button>
+                    <button onClick={() => setUseRange(true)} className={`px-3 py-1.5 font-bold ${optionClass(useRange)}`}>Custom</button>
+                    {useRange && (
+                        <div className="flex items-center gap-2 font-mono ml-2">
+                            <input
+                                type="number" step="0.1" min="0"
+                                value={rangeStart}
+                                onChange={(e) => setRangeStart(parseFloat(e.target.value) || 0)}
+                                className="w-20 bg-black/40 border border-white/10 rounded px-2 py-1 text-white focus:border-emerald-500 outline-none transition-colors"
+                            />
+                            <span className="text-gray-500">to</span>
+                            <input
+                                type="number" step="0.1" min="0"
+                                value={rangeEnd}
+                                onChange={(e) => setRangeEnd(parseFloat(e.target.value) || 0)}
+                                className="w-20 bg-black/40 border border-white/10 rounded px-2 py-1 text-white focus:border-emerald-500 outline-none transition-colors"
+                            />
+                            <span className="text-gray-500">s</span>
                         </div>
-                    </div>
+                    )}
+                </div>
+                {!isRangeValid && <p className="text-[10px] text-red-400 mb-2">The range must end after it starts.</p>}
+
+                {captionTracks.length > 0 && (
+                    <>
+                        <label className="flex items-center gap-2 text-[10px] font-bold text-white/50 uppercase tracking-wider mt-5 mb-2">
+                            Captions
+                            {captionTracks.length > 1 && (
+                                <select
+                                    value={captionTrackId}
+                                    onChange={(e) => setCaptionTrackId(e.target.value)}
+                                    className="ml-auto bg-black/40 border border-white/10 rounded px-2 py-0.5 text-[10px] normal-case font-normal text-white outline-none focus:border-emerald-500"
+                                >
+                                    {captionTracks.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                </select>
+                            )}
+                        </label>
+                        <div className="grid grid-cols-5 gap-2 mb-2">
+                            {[null, ...CAPTION_PRESETS].map(p => (
+                                <button
+                                    key={p?.id || 'off'}
+                                    onClick={() => setBurnInPresetId(p?.id || null)}
+                                    className={`px-2 py-2 text-[10px] font-bold text-left ${optionClass(burnInPresetId === (p?.id || null))}`}
+                                    title={p ? `Burn the captions into the picture${p.style ? ` in the ${p.label} style` : ' styled as on the timeline'}` : 'Keep captions out of the picture'}
+                                >
+                                    {p ? p.label : 'Not Burned In'}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500">SRT and VTT files of the captions can be downloaded with each finished render.</p>
+                    </>
                 )}
+
+                <div className="flex justify-end gap-3 mt-4 mb-6">
+                    <button
+                        onClick={handleEnqueueAllFormats}
+                        disabled={!isRangeValid}
+                        className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg text-white text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Queue All Social Formats
+                    </button>
+                    <button
+                        onClick={handleEnqueue}
+                        disabled={!isRangeValid}
+                        className="px-6 py-2 bg-emerald-500 hover:bg-emerald-400 text-black font-bold rounded-lg text-sm transition-colors shadow-lg shadow-emerald-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Add to Queue
+                    </button>
+                </div>
+
+                {/* ─── QUEUE ─── */}
+                <div className="flex items-center gap-2 mb-2">
+                    <QueueListIcon className="w-4 h-4 text-white/50" />
+                    <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider">Render Queue</span>
+                    <button
+                        onClick={handleClearCache}
+                        disabled={cacheCleared}
+                        className="ml-auto text-[10px] text-gray-500 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-default"
+                        title="Encoded clips are reused by later exports; clearing forces every clip to re-encode"
+                    >
+                        {cacheCleared ? 'Clip cache cleared' : 'Clear clip cache'}
+                    </button>
+                </div>
+                <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar space-y-2">
+                    {jobs.length === 0 ? (
+                        <p className="text-[10px] text-gray-600 text-center py-6">
+                            Queued renders run one after another in your browser with FFmpeg WASM, even with this window closed.
+                        </p>
+                    ) : jobs.map(renderJob)}
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { TextClip, TextAnimation } from '../types';
+import { TEXT_FONTS, TEXT_ANIMATIONS } from '../utils/textClips';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+
+interface TextPanelProps {
+  clip: TextClip;
+  position: { x: number; y: number }; // Viewport anchor (fixed positioning escapes the timeline's scroll clip)
+  onChange: (clip: TextClip) => void;
+  onClose: () => void;
+}
+
+// Quick placements; x/y sliders fine-tune from there
+const PLACEMENTS = [
+  { label: 'Top', x: 0.5, y: 0.15 },
+  { label: 'Centre', x: 0.5, y: 0.5 },
+  { label: 'Lower Third', x: 0.3, y: 0.82 }
+];
+
+const TextPanel: React.FC<TextPanelProps> = ({ clip, position, onChange, onClose }) => {
+  // Typing, slider drags and colour picking stay local until they finish, so each is one undo step
+  const [draft, setDraft] = useState<TextClip | null>(null);
+  const current = draft || clip;
+
+  const update = (updates: Partial<TextClip>) => setDraft({ ...current, ...updates });
+  const commitDraft = () => {
+    if (!draft) return;
+    onChange(draft);
+    setDraft(null);
+  };
+  // Discrete choices (buttons, selects) commit straight away
+  const apply = (updates: Partial<TextClip>) => {
+    onChange({ ...current, ...updates });
+    setDraft(null);
+  };
+
+  const commitProps = { onMouseUp: commitDraft, onTouchEnd: commitDraft, onKeyUp: commitDraft, onBlur: commitDraft };
+  const fieldClass = 'w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-xs text-white outline-none focus:border-emerald-500';
+
+  const renderSlider = (label: string, value: number, min: number, max: number, step: number, display: string, key: 'fontSize' | 'boxOpacity' | 'x' | 'y') => (
+    <label className="block">
+      <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+        <span>{label}</span>
+        <span className="font-mono text-emerald-300">{display}</span>
+      </div>
+      <input
+        type="range" min={min} max={max} step={step} value={value}
+        onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+        {...commitProps}
+        className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2 [&::-webkit-slider-thumb]:h-2 [&::-webkit-slider-thumb]:bg-emerald-500 [&::-webkit-slider-thumb]:rounded-full"
+      />
+    </label>
+  );
+
+  const renderAnimationSelect = (label: string, value: TextAnimation, key: 'animationIn' | 'animationOut') => (
+    <label className="block flex-1">
+      <span className="block text-[10px] text-gray-400 mb-1">{label}</span>
+      <select value={value} onChange={(e) => apply({ [key]: e.target.value as TextAnimation })} className={fieldClass}>
+        {TEXT_ANIMATIONS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed w-64 max-h-[80vh] overflow-y-auto custom-scrollbar bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl z-[70] backdrop-blur-xl"
+      style={{ left: position.x, top: position.y }}
+    >
+      <div className="px-3 py-2 border-b border-white/5 flex justify-between items-center">
+        <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider">Title</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 space-y-3">
+        <textarea
+          value={current.content}
+          onChange={(e) => update({ content: e.target.value })}
+          onBlur={commitDraft}
+          rows={2}
+          className={`${fieldClass} resize-none`}
+        />
+
+        <div className="flex gap-2">
+          <select value={current.fontFamily} onChange={(e) => apply({ fontFamily: e.target.value })} className={fieldClass}>
+            {TEXT_FONTS.map(f => <option key={f} value={f}>{f}</option>)}
+          </select>
+          <button
+            onClick={() => apply({ bold: !current.bold })}
+            className={`px-2 rounded text-xs font-bold border transition-colors ${current.bold ? 'bg-emerald-500 text-black border-emerald-500' : 'bg-black/40 text-gray-400 border-white/10 hover:text-white'}`}
+          >
+            B
+          </button>
+          <input type="color" value={current.color} onChange={(e) => update({ color: e.target.value })} {...commitProps} className="w-8 h-7 shrink-0 bg-transparent cursor-pointer" title="Text colour" />
+        </div>
+        {renderSlider('Size', current.fontSize, 0.02, 0.2, 0.005, `${Math.round(current.fontSize * 100)}%`, 'fontSize')}
+
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer flex-1">
+            <input
+              type="checkbox"
+              checked={!!current.boxColor}
+              onChange={(e) => apply(e.target.checked ? { boxColor: '#000000', boxOpacity: current.boxOpacity || 0.6 } : { boxColor: undefined })}
+              className="accent-emerald-500"
+            />
+            Background box
+          </label>
+          {current.boxColor && (
+            <input type="color" value={current.boxColor} onChange={(e) => update({ boxColor: e.target.value })} {...commitProps} className="w-8 h-7 shrink-0 bg-transparent cursor-pointer" title="Box colour" />
+          )}
+        </div>
+        {current.boxColor && renderSlider('Box Opacity', current.boxOpacity, 0, 1, 0.05, `${Math.round(current.boxOpacity * 100)}%`, 'boxOpacity')}
+
+        <div className="grid grid-cols-3 gap-1.5">
+          {PLACEMENTS.map(p => (
+            <button
+              key={p.label}
+              onClick={() => apply({ x: p.x, y: p.y })}
+              className="px-1 py-1 rounded text-[10px] font-bold border bg-black/40 border-white/10 text-gray-400 hover:text-white hover:border-white/30 transition-colors"
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        {renderSlider('X', current.x, 0, 1, 0.01, `${Math.round(current.x * 100)}%`, 'x')}
+        {renderSlider('Y', current.y, 0, 1, 0.01, `${Math.round(current.y * 100)}%`, 'y')}
+
+        <div className="flex gap-2">
+          {renderAnimationSelect('Animate In', current.animationIn, 'animationIn')}
+          {renderAnimationSelect('Animate Out', current.animationOut, 'animationOut')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextPanel;
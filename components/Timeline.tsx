@@ -1,27 +1,74 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { TimelineSegment, TrackType, Asset, AssetType } from '../types';
-import { LinkIcon, VideoCameraIcon, MusicalNoteIcon, SparklesIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/solid';
+import { TimelineSegment, Track, TrackKind, Asset, AssetType } from '../types';
+import { TrimEdge, MIN_CLIP_FRAMES, getSourceIn } from '../utils/timeline';
+import { getMainTrackId, isRequiredKind } from '../utils/tracks';
+import { SUBTITLE_FILE_TYPES } from '../utils/subtitles';
+import { MAX_CLIP_GAIN, getClipVolume, getEnvelopePoints, getFadePoints, gainAt, gainToDb } from '../utils/audioGain';
+import { getTransitionLabel, MAX_TRANSITION_DURATION } from '../utils/transitions';
+import DuckingPanel from './DuckingPanel';
+import TransitionPanel from './TransitionPanel';
+import TextPanel from './TextPanel';
+import { TEXT_TEMPLATES } from '../utils/textClips';
+import { LinkIcon, VideoCameraIcon, MusicalNoteIcon, SparklesIcon, TrashIcon, XMarkIcon, ScissorsIcon, BackspaceIcon, ArrowsPointingInIcon, ArrowsRightLeftIcon, BookmarkIcon, PlusIcon, ChevronUpIcon, ChevronDownIcon, ArrowTrendingDownIcon, Square2StackIcon, ChatBubbleBottomCenterTextIcon, PencilSquareIcon, LanguageIcon, DocumentArrowUpIcon } from '@heroicons/react/24/solid';
 
 interface TimelineProps {
   currentTime: number; // Controlled by App
+  fps: number; // Project frame rate; all frame positions are in these units
   segments: TimelineSegment[];
+  tracks: Track[]; // Display order; the first video track is the main one
+  onAddTrack: (kind: TrackKind) => void;
+  onRemoveTrack: (id: string) => void;
+  onUpdateTrack: (id: string, updates: Partial<Track>) => void;
+  onMoveTrack: (id: string, direction: -1 | 1) => void;
   onCheckContinuity: (segA: TimelineSegment, segB: TimelineSegment) => void;
-  onDropAsset: (asset: Asset, trackId: TrackType, time: number) => void;
+  onDropAsset: (asset: Asset, trackId: string, time: number) => void;
+  onAddTextClip: (trackId: string, templateId: string, time: number) => void;
+  onImportCaptions: (trackId: string, fileName: string, content: string) => void; // SRT/VTT file contents
   onDeleteSegment: (id: string) => void;
+  onRippleDeleteSegment: (id: string) => void;
+  isMagnetic: boolean;
+  onToggleMagnetic: () => void;
   onUnlinkSegment: (id: string) => void;
   onUpdateSegment: (id: string, updates: Partial<TimelineSegment>) => void;
+  onTrimSegment: (id: string, edge: TrimEdge, deltaFrames: number) => void;
+  onSplitAtFrame: (frame: number) => void;
+  markers: number[]; // Frames
+  onAddMarker: (frame: number) => void;
+  onRemoveMarker: (frame: number) => void;
   onSeek: (time: number) => void;
 }
 
+// Titles and captions share a lane style, told apart by colour
+const TEXT_LANE_STYLES = {
+    title: { clip: 'bg-amber-500/20 border-amber-500/30 hover:bg-amber-500/30', ring: 'ring-amber-500', label: 'text-amber-100', edit: 'hover:text-amber-300' },
+    caption: { clip: 'bg-teal-500/20 border-teal-500/30 hover:bg-teal-500/30', ring: 'ring-teal-500', label: 'text-teal-100', edit: 'hover:text-teal-300' }
+};
+
 const Timeline: React.FC<TimelineProps> = ({ 
     currentTime, 
+    fps,
     segments, 
+    tracks,
+    onAddTrack,
+    onRemoveTrack,
+    onUpdateTrack,
+    onMoveTrack,
     onCheckContinuity, 
     onDropAsset, 
+    onAddTextClip,
+    onImportCaptions,
     onDeleteSegment, 
+    onRippleDeleteSegment,
+    isMagnetic,
+    onToggleMagnetic,
     onUnlinkSegment, 
     onUpdateSegment,
+    onTrimSegment,
+    onSplitAtFrame,
+    markers,
+    onAddMarker,
+    onRemoveMarker,
     onSeek 
 }) => {
   const [zoom, setZoom] = useState(30);
@@ -29,80 +76,195 @@ const Timeline: React.FC<TimelineProps> = ({
   // Refs for smooth dragging
   const dragItemRef = useRef<HTMLDivElement | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const importTrackIdRef = useRef<string | null>(null); // Caption track the subtitle file picker is open for
   
   // Global drag state reference
   const dragDataRef = useRef<{
       id: string;
+      mode: 'move' | TrimEdge;
       startX: number;
       initialLeft: number;
+      initialWidth: number;
       originalStartFrame: number;
+      lengthFrames: number;
+      snapTargets: number[]; // Frames the dragged edges may snap to
   } | null>(null);
 
   // Ghost State (Visual feedback only during drag)
   const [isDraggingId, setIsDraggingId] = useState<string | null>(null);
 
+  // Snapping (holding Alt inverts the toggle for the current drag)
+  const [isSnapping, setIsSnapping] = useState(true);
+  const [snapGuideFrame, setSnapGuideFrame] = useState<number | null>(null);
+
+  const [editingTrackId, setEditingTrackId] = useState<string | null>(null);
+  const [duckingPanel, setDuckingPanel] = useState<{ trackId: string; x: number; y: number } | null>(null);
+  const [textMenu, setTextMenu] = useState<{ trackId: string; x: number; y: number } | null>(null);
+  const [textPanel, setTextPanel] = useState<{ segmentId: string; x: number; y: number } | null>(null);
+  const [transitionPanel, setTransitionPanel] = useState<{ segmentId: string; x: number; y: number } | null>(null); // Keyed by the clip after the cut
+
+  // Live gain edit on one clip, committed to the history on mouse up
+  const [gainDraft, setGainDraft] = useState<{ id: string; updates: Partial<TimelineSegment> } | null>(null);
+
   // Layout Constants
   const HEADER_WIDTH = 96; // w-24 (6rem) in pixels
+  const SNAP_THRESHOLD_PX = 8;
 
   // --- SEGMENT DRAG HANDLERS ---
-  const handleMouseDownSegment = (e: React.MouseEvent, seg: TimelineSegment) => {
-      e.stopPropagation();
-      e.preventDefault();
-      if ((e.target as HTMLElement).closest('button')) return;
-      
-      const el = e.currentTarget as HTMLDivElement;
+  const beginDrag = (e: React.MouseEvent, el: HTMLDivElement, seg: TimelineSegment, mode: 'move' | TrimEdge) => {
       dragItemRef.current = el;
-      
+
+      // Everything except the clip itself and its linked partner (which moves with it)
+      const snapTargets = [Math.round(currentTime * fps), ...markers];
+      segments.forEach(s => {
+          if (s.id !== seg.id && s.id !== seg.linkedSegmentId) snapTargets.push(s.startFrame, s.endFrame);
+      });
+
       dragDataRef.current = {
           id: seg.id,
+          mode,
           startX: e.clientX,
-          initialLeft: (seg.startFrame / 30) * zoom,
-          originalStartFrame: seg.startFrame
+          initialLeft: (seg.startFrame / fps) * zoom,
+          initialWidth: seg.duration * zoom,
+          originalStartFrame: seg.startFrame,
+          lengthFrames: seg.duration * fps,
+          snapTargets
       };
 
       setIsDraggingId(seg.id);
-      document.body.style.cursor = 'grabbing';
-      
+
       // CRITICAL: Attach listeners to WINDOW to handle fast movement/leaving the div
       window.addEventListener('mousemove', handleSegmentMouseMove);
       window.addEventListener('mouseup', handleSegmentMouseUp);
   };
 
+  const handleMouseDownSegment = (e: React.MouseEvent, seg: TimelineSegment) => {
+      e.stopPropagation();
+      e.preventDefault();
+      if ((e.target as HTMLElement).closest('button')) return;
+      
+      beginDrag(e, e.currentTarget as HTMLDivElement, seg, 'move');
+      document.body.style.cursor = 'grabbing';
+  };
+
+  // Trim handles reuse the move pipeline; only the visual feedback and the commit differ
+  const handleMouseDownTrim = (e: React.MouseEvent, seg: TimelineSegment, edge: TrimEdge) => {
+      e.stopPropagation();
+      e.preventDefault();
+
+      beginDrag(e, (e.currentTarget as HTMLElement).parentElement as HTMLDivElement, seg, edge);
+      document.body.style.cursor = 'ew-resize';
+  };
+
+  // Raw pixel delta -> frame delta, pulled onto the nearest snap target within reach
+  const resolveDragDelta = useCallback((e: MouseEvent): { delta: number; guide: number | null } => {
+      const drag = dragDataRef.current!;
+      const rawDelta = Math.round(((e.clientX - drag.startX) / zoom) * fps);
+      if (isSnapping === e.altKey) return { delta: rawDelta, guide: null };
+
+      const startEdge = drag.originalStartFrame;
+      const endEdge = drag.originalStartFrame + drag.lengthFrames;
+      const edges = drag.mode === 'move' ? [startEdge, endEdge] : drag.mode === 'start' ? [startEdge] : [endEdge];
+      const threshold = (SNAP_THRESHOLD_PX / zoom) * fps;
+
+      let best: { offset: number; target: number } | null = null;
+      for (const edge of edges) {
+          const position = edge + rawDelta;
+          // Whole-second boundaries are always candidates
+          const candidates = [...drag.snapTargets, Math.round(position / fps) * fps];
+          for (const target of candidates) {
+              const offset = target - position;
+              if (Math.abs(offset) <= threshold && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+                  best = { offset, target };
+              }
+          }
+      }
+
+      return best
+          ? { delta: Math.round(rawDelta + best.offset), guide: best.target }
+          : { delta: rawDelta, guide: null };
+  }, [zoom, fps, isSnapping]);
+
   const handleSegmentMouseMove = useCallback((e: MouseEvent) => {
       if (dragDataRef.current && dragItemRef.current) {
-          const deltaX = e.clientX - dragDataRef.current.startX;
-          // Constrain visual drag so it doesn't go below 0 (negative time)
-          const constrainedDeltaX = Math.max(deltaX, -dragDataRef.current.initialLeft);
+          const { mode, initialLeft, initialWidth } = dragDataRef.current;
+          const { delta, guide } = resolveDragDelta(e);
+          const deltaX = (delta / fps) * zoom;
+          setSnapGuideFrame(guide);
 
-          dragItemRef.current.style.transform = `translateX(${constrainedDeltaX}px)`;
+          if (mode === 'move') {
+              // Constrain visual drag so it doesn't go below 0 (negative time)
+              const constrainedDeltaX = Math.max(deltaX, -initialLeft);
+              dragItemRef.current.style.transform = `translateX(${constrainedDeltaX}px)`;
+              dragItemRef.current.style.boxShadow = '0 10px 15px -3px rgba(0, 0, 0, 0.5)';
+          } else {
+              // Approximate preview; source bounds are enforced when the trim is committed
+              const minWidth = (MIN_CLIP_FRAMES / fps) * zoom;
+              if (mode === 'start') {
+                  const constrainedDeltaX = Math.min(Math.max(deltaX, -initialLeft), initialWidth - minWidth);
+                  dragItemRef.current.style.transform = `translateX(${constrainedDeltaX}px)`;
+                  dragItemRef.current.style.width = `${initialWidth - constrainedDeltaX}px`;
+              } else {
+                  dragItemRef.current.style.width = `${Math.max(minWidth, initialWidth + deltaX)}px`;
+              }
+          }
           dragItemRef.current.style.zIndex = '100';
-          dragItemRef.current.style.boxShadow = '0 10px 15px -3px rgba(0, 0, 0, 0.5)';
       }
-  }, []);
+  }, [zoom, fps, resolveDragDelta]);
 
   const handleSegmentMouseUp = useCallback((e: MouseEvent) => {
       if (dragDataRef.current && dragItemRef.current) {
-          const deltaX = e.clientX - dragDataRef.current.startX;
-          const deltaFrames = Math.round((deltaX / zoom) * 30);
-          const newStartFrame = Math.max(0, dragDataRef.current.originalStartFrame + deltaFrames);
+          const { id, mode, originalStartFrame } = dragDataRef.current;
+          const { delta: deltaFrames } = resolveDragDelta(e);
           
           // Reset DOM styles
           dragItemRef.current.style.transform = '';
+          dragItemRef.current.style.width = '';
           dragItemRef.current.style.zIndex = '';
           dragItemRef.current.style.boxShadow = '';
           
-          onUpdateSegment(dragDataRef.current.id, { startFrame: newStartFrame });
+          if (mode === 'move') {
+              const newStartFrame = Math.max(0, originalStartFrame + deltaFrames);
+              onUpdateSegment(id, { startFrame: newStartFrame });
+          } else if (deltaFrames !== 0) {
+              onTrimSegment(id, mode, deltaFrames);
+          }
       }
 
       // Cleanup
       dragItemRef.current = null;
       dragDataRef.current = null;
       setIsDraggingId(null);
+      setSnapGuideFrame(null);
       document.body.style.cursor = 'default';
       window.removeEventListener('mousemove', handleSegmentMouseMove);
       window.removeEventListener('mouseup', handleSegmentMouseUp);
-  }, [zoom, onUpdateSegment, handleSegmentMouseMove]);
+  }, [onUpdateSegment, onTrimSegment, resolveDragDelta, handleSegmentMouseMove]);
+
+
+  // --- RAZOR ---
+  const handleSplit = useCallback(() => {
+      onSplitAtFrame(Math.round(currentTime * fps));
+  }, [currentTime, fps, onSplitAtFrame]);
 
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          const target = e.target as HTMLElement;
+          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+          if (e.ctrlKey || e.metaKey || e.altKey) return;
+          const key = e.key.toLowerCase();
+          if (key === 's') {
+              e.preventDefault();
+              handleSplit();
+          } else if (key === 'm') {
+              e.preventDefault();
+              onAddMarker(Math.round(currentTime * fps));
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleSplit, onAddMarker, currentTime, fps]);
 
   // --- PLAYHEAD SCRUB HANDLERS ---
   const handleRulerMouseDown = (e: React.MouseEvent) => {
@@ -137,20 +299,528 @@ const Timeline: React.FC<TimelineProps> = ({
 
 
   // --- RENDER HELPERS ---
-  const videoSegments = segments.filter(s => s.trackId === TrackType.VIDEO_MAIN).sort((a,b) => a.startFrame - b.startFrame);
-  const audioSegments = segments.filter(s => s.trackId === TrackType.AUDIO).sort((a,b) => a.startFrame - b.startFrame);
+  const mainTrackId = getMainTrackId(tracks);
   
-  const totalDuration = Math.max(60, ...segments.map(s => s.endFrame / 30)) + 10;
+  const totalDuration = Math.max(60, ...segments.map(s => s.endFrame / fps)) + 10;
   const totalWidth = (totalDuration * zoom) + HEADER_WIDTH;
 
   const getStyle = (start: number, dur: number) => ({
-      left: `${(start / 30) * zoom}px`,
+      left: `${(start / fps) * zoom}px`,
       width: `${Math.max(1, dur * zoom)}px`
   });
 
+  const renderTrimHandles = (seg: TimelineSegment) => (
+      <>
+          <div
+              onMouseDown={(e) => handleMouseDownTrim(e, seg, 'start')}
+              className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize z-40 opacity-0 group-hover/item:opacity-100 bg-white/40 hover:bg-emerald-400 transition-opacity"
+              title="Trim In"
+          />
+          <div
+              onMouseDown={(e) => handleMouseDownTrim(e, seg, 'end')}
+              className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize z-40 opacity-0 group-hover/item:opacity-100 bg-white/40 hover:bg-emerald-400 transition-opacity"
+              title="Trim Out"
+          />
+      </>
+  );
+
+  const commitTrackName = (track: Track, value: string) => {
+      const name = value.trim();
+      if (name && name !== track.name) onUpdateTrack(track.id, { name });
+      setEditingTrackId(null);
+  };
+
+  const renderTrackHeader = (track: Track, isMain: boolean) => {
+      const kindCount = tracks.filter(t => t.kind === track.kind).length;
+      const Icon = track.kind === TrackKind.AUDIO ? MusicalNoteIcon : track.kind === TrackKind.TEXT ? ChatBubbleBottomCenterTextIcon : track.kind === TrackKind.CAPTION ? LanguageIcon : isMain ? VideoCameraIcon : SparklesIcon;
+      const iconColor = track.kind === TrackKind.AUDIO ? 'text-blue-400' : track.kind === TrackKind.TEXT ? 'text-amber-400' : track.kind === TrackKind.CAPTION ? 'text-teal-400' : isMain ? 'text-gray-400' : 'text-purple-400';
+      return (
+          <div className="w-24 bg-white/5 border-r border-white/5 flex flex-col items-center justify-center sticky left-0 z-40 backdrop-blur-md border-b border-white/5 shrink-0 shadow-lg select-none group/track relative">
+              <Icon className={`w-4 h-4 ${iconColor} mb-1`} />
+              {editingTrackId === track.id ? (
+                  <input
+                      autoFocus
+                      defaultValue={track.name}
+                      onBlur={(e) => commitTrackName(track, e.currentTarget.value)}
+                      onKeyDown={(e) => {
+                          if (e.key === 'Enter') e.currentTarget.blur();
+                          if (e.key === 'Escape') setEditingTrackId(null);
+                      }}
+                      className="w-20 bg-black/60 border border-emerald-500/50 rounded px-1 text-[9px] font-bold text-white text-center outline-none"
+                  />
+              ) : (
+                  <span
+                      onDoubleClick={() => setEditingTrackId(track.id)}
+                      className="text-[9px] font-bold text-gray-500 uppercase truncate max-w-[5.5rem] px-1 cursor-text"
+                      title="Double-click to rename"
+                  >
+                      {track.name}
+                  </span>
+              )}
+              {/* Track Actions */}
+              <div className="absolute top-0.5 right-0.5 flex flex-col opacity-0 group-hover/track:opacity-100 transition-opacity">
+                  <button onClick={() => onMoveTrack(track.id, -1)} className="p-0.5 text-gray-500 hover:text-white" title="Move Track Up"><ChevronUpIcon className="w-2.5 h-2.5" /></button>
+                  <button onClick={() => onMoveTrack(track.id, 1)} className="p-0.5 text-gray-500 hover:text-white" title="Move Track Down"><ChevronDownIcon className="w-2.5 h-2.5" /></button>
+              </div>
+              {track.kind === TrackKind.AUDIO && kindCount > 1 && (
+                  <button
+                      onClick={(e) => {
+                          const rect = e.currentTarget.getBoundingClientRect();
+                          setDuckingPanel(duckingPanel?.trackId === track.id ? null : { trackId: track.id, x: rect.right + 8, y: rect.top - 80 });
+                      }}
+                      className={`absolute bottom-0.5 left-0.5 p-0.5 transition-opacity ${track.ducking ? 'text-emerald-400' : 'text-gray-500 hover:text-white opacity-0 group-hover/track:opacity-100'}`}
+                      title={track.ducking ? 'Ducking on' : 'Duck under dialogue'}
+                  >
+                      <ArrowTrendingDownIcon className="w-2.5 h-2.5" />
+                  </button>
+              )}
+              {track.kind === TrackKind.TEXT && (
+                  <button
+                      onClick={(e) => {
+                          const rect = e.currentTarget.getBoundingClientRect();
+                          setTextMenu(textMenu?.trackId === track.id ? null : { trackId: track.id, x: rect.right + 8, y: rect.top - 40 });
+                      }}
+                      className="absolute bottom-0.5 left-0.5 p-0.5 text-gray-500 hover:text-white opacity-0 group-hover/track:opacity-100 transition-opacity"
+                      title="Add Title at Playhead"
+                  >
+                      <PlusIcon className="w-2.5 h-2.5" />
+                  </button>
+              )}
+              {track.kind === TrackKind.CAPTION && (
+                  <button
+                      onClick={() => {
+                          importTrackIdRef.current = track.id;
+                          subtitleInputRef.current?.click();
+                      }}
+                      className="absolute bottom-0.5 left-0.5 p-0.5 text-gray-500 hover:text-white opacity-0 group-hover/track:opacity-100 transition-opacity"
+                      title="Import SRT/VTT"
+                  >
+                      <DocumentArrowUpIcon className="w-2.5 h-2.5" />
+                  </button>
+              )}
+              {(kindCount > 1 || !isRequiredKind(track.kind)) && (
+                  <button
+                      onClick={() => onRemoveTrack(track.id)}
+                      className="absolute bottom-0.5 right-0.5 p-0.5 text-gray-500 hover:text-red-400 opacity-0 group-hover/track:opacity-100 transition-opacity"
+                      title="Remove Track (and its clips)"
+                  >
+                      <TrashIcon className="w-2.5 h-2.5" />
+                  </button>
+              )}
+          </div>
+      );
+  };
+
+  // Candidate key tracks for ducking, the one carrying the most voiceover (`VO:`) clips first
+  const getDuckingKeyCandidates = (track: Track) => tracks
+      .filter(t => t.kind === TrackKind.AUDIO && t.id !== track.id)
+      .map(t => ({ track: t, voCount: segments.filter(s => s.trackId === t.id && s.label.startsWith('VO:')).length }))
+      .sort((a, b) => b.voCount - a.voCount)
+      .map(c => c.track);
+
+  const renderDuckingPanel = () => {
+      const track = duckingPanel && tracks.find(t => t.id === duckingPanel.trackId);
+      if (!duckingPanel || !track) return null;
+      const keyCandidates = getDuckingKeyCandidates(track);
+      if (keyCandidates.length === 0) return null;
+      return (
+          <DuckingPanel
+              track={track}
+              keyCandidates={keyCandidates}
+              position={duckingPanel}
+              onChange={(ducking) => onUpdateTrack(track.id, { ducking })}
+              onClose={() => setDuckingPanel(null)}
+          />
+      );
+  };
+
+  const renderTextMenu = () => {
+      if (!textMenu) return null;
+      return (
+          <div
+              className="fixed w-44 bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl z-[70] backdrop-blur-xl overflow-hidden py-1"
+              style={{ left: textMenu.x, top: textMenu.y }}
+          >
+              {TEXT_TEMPLATES.map(template => (
+                  <button
+                      key={template.id}
+                      onClick={() => {
+                          onAddTextClip(textMenu.trackId, template.id, currentTime);
+                          setTextMenu(null);
+                      }}
+                      className="w-full text-left px-3 py-1.5 text-xs text-gray-300 hover:bg-white/10 hover:text-white transition-colors"
+                  >
+                      {template.label}
+                  </button>
+              ))}
+          </div>
+      );
+  };
+
+  const renderTextPanel = () => {
+      const seg = textPanel && segments.find(s => s.id === textPanel.segmentId);
+      if (!textPanel || !seg?.text) return null;
+      return (
+          <TextPanel
+              key={seg.id}
+              clip={seg.text}
+              position={textPanel}
+              // The clip's label follows the first line of its text
+              onChange={(text) => onUpdateSegment(seg.id, { text, label: text.content.split('\n')[0] || 'Title' })}
+              onClose={() => setTextPanel(null)}
+          />
+      );
+  };
+
+  const openTextPanel = (e: React.MouseEvent, seg: TimelineSegment) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      setTextPanel(textPanel?.segmentId === seg.id ? null : { segmentId: seg.id, x: rect.left, y: Math.max(8, rect.top - 420) });
+  };
+
+  const renderTransitionPanel = () => {
+      const incoming = transitionPanel && segments.find(s => s.id === transitionPanel.segmentId);
+      const outgoing = incoming && segments.find(s => s.trackId === incoming.trackId && Math.abs(s.endFrame - incoming.startFrame) < 0.5);
+      if (!transitionPanel || !incoming || !outgoing) return null;
+      return (
+          <TransitionPanel
+              key={incoming.id}
+              transition={incoming.transitionIn}
+              maxDuration={Math.min(MAX_TRANSITION_DURATION, outgoing.duration, incoming.duration)}
+              position={transitionPanel}
+              onChange={(transitionIn) => onUpdateSegment(incoming.id, { transitionIn })}
+              onClose={() => setTransitionPanel(null)}
+          />
+      );
+  };
+
+  // --- GAIN ENVELOPE (audio clips) ---
+  // Vertical position maps linearly onto 0..MAX_CLIP_GAIN, so unity sits halfway up the clip
+  const gainToY = (gain: number) => (1 - gain / MAX_CLIP_GAIN) * 100;
+
+  const beginGainDrag = (e: React.MouseEvent, seg: TimelineSegment, target: 'volume' | 'fadeIn' | 'fadeOut' | number) => {
+      e.stopPropagation();
+      e.preventDefault();
+      const area = (e.currentTarget as HTMLElement).closest('[data-gain-area]') as HTMLElement;
+      const rect = area.getBoundingClientRect();
+      const startY = e.clientY;
+      const volume = getClipVolume(seg);
+      const sourceIn = getSourceIn(seg);
+      let updates: Partial<TimelineSegment> | null = null;
+
+      const handleMove = (ev: MouseEvent) => {
+          const localTime = Math.min(Math.max(0, (ev.clientX - rect.left) / rect.width), 1) * seg.duration;
+          const pointerGain = Math.min(Math.max(0, 1 - (ev.clientY - rect.top) / rect.height), 1) * MAX_CLIP_GAIN;
+
+          if (target === 'volume') {
+              const delta = ((startY - ev.clientY) / rect.height) * MAX_CLIP_GAIN;
+              updates = { volume: Math.min(Math.max(0, volume + delta), MAX_CLIP_GAIN) };
+          } else if (target === 'fadeIn') {
+              updates = { fadeIn: Math.min(localTime, seg.duration - (seg.fadeOut || 0)) };
+          } else if (target === 'fadeOut') {
+              updates = { fadeOut: Math.min(seg.duration - localTime, seg.duration - (seg.fadeIn || 0)) };
+          } else {
+              // Keyframes can't pass their neighbours, so the list stays sorted while dragging
+              const keyframes = [...(seg.gainKeyframes || [])];
+              const prev = keyframes[target - 1]?.time ?? -Infinity;
+              const next = keyframes[target + 1]?.time ?? Infinity;
+              keyframes[target] = {
+                  time: Math.min(Math.max(sourceIn + localTime, prev), next),
+                  gain: volume > 0 ? Math.min(pointerGain / volume, MAX_CLIP_GAIN) : keyframes[target].gain
+              };
+              updates = { gainKeyframes: keyframes };
+          }
+          setGainDraft({ id: seg.id, updates });
+      };
+
+      const handleUp = () => {
+          window.removeEventListener('mousemove', handleMove);
+          window.removeEventListener('mouseup', handleUp);
+          if (updates) onUpdateSegment(seg.id, updates);
+          setGainDraft(null);
+      };
+
+      window.addEventListener('mousemove', handleMove);
+      window.addEventListener('mouseup', handleUp);
+  };
+
+  // New keyframes take the envelope's current value, so adding one never changes the sound by itself
+  const handleAddGainKeyframe = (e: React.MouseEvent, seg: TimelineSegment) => {
+      e.stopPropagation();
+      const area = (e.currentTarget as HTMLElement).closest('[data-gain-area]') as HTMLElement;
+      const rect = area.getBoundingClientRect();
+      const localTime = Math.min(Math.max(0, (e.clientX - rect.left) / rect.width), 1) * seg.duration;
+      const envelopeGain = gainAt((seg.gainKeyframes || []).map(k => ({ time: k.time - getSourceIn(seg), gain: k.gain })), localTime);
+      const keyframes = [...(seg.gainKeyframes || []), { time: getSourceIn(seg) + localTime, gain: envelopeGain }]
+          .sort((a, b) => a.time - b.time);
+      onUpdateSegment(seg.id, { gainKeyframes: keyframes });
+  };
+
+  const handleRemoveGainKeyframe = (e: React.MouseEvent, seg: TimelineSegment, index: number) => {
+      e.stopPropagation();
+      const keyframes = (seg.gainKeyframes || []).filter((_, i) => i !== index);
+      onUpdateSegment(seg.id, { gainKeyframes: keyframes.length > 0 ? keyframes : undefined });
+  };
+
+  const renderGainEnvelope = (seg: TimelineSegment) => {
+      const width = Math.max(1, seg.duration * zoom);
+      const toX = (time: number) => (time / seg.duration) * width;
+      const envelope = getEnvelopePoints(seg);
+      const fades = getFadePoints(seg);
+      const line = envelope.map(p => `${toX(p.time)},${gainToY(p.gain)}`).join(' ');
+      const sourceIn = getSourceIn(seg);
+      const volume = getClipVolume(seg);
+
+      return (
+          <div data-gain-area className="absolute inset-0 z-20 pointer-events-none">
+              <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox={`0 0 ${width} 100`} preserveAspectRatio="none">
+                  {/* Fade shading */}
+                  <polygon points={`0,0 ${toX(fades[1].time)},0 0,100`} className="fill-black/50" />
+                  <polygon points={`${width},0 ${toX(fades[2].time)},0 ${width},100`} className="fill-black/50" />
+                  <polyline points={line} fill="none" className="stroke-yellow-300" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+                  {/* Wide invisible hit area: drag to change clip volume, double-click to add a keyframe */}
+                  <polyline
+                      points={line}
+                      fill="none"
+                      stroke="transparent"
+                      strokeWidth={10}
+                      vectorEffect="non-scaling-stroke"
+                      className="pointer-events-auto cursor-ns-resize"
+                      onMouseDown={(e) => beginGainDrag(e, seg, 'volume')}
+                      onDoubleClick={(e) => handleAddGainKeyframe(e, seg)}
+                  >
+                      <title>{`Volume ${gainToDb(volume)} (drag to adjust, double-click to add keyframe)`}</title>
+                  </polyline>
+              </svg>
+
+              {(seg.gainKeyframes || []).map((k, i) => {
+                  const localTime = k.time - sourceIn;
+                  if (localTime < 0 || localTime > seg.duration) return null;
+                  return (
+                      <div
+                          key={i}
+                          onMouseDown={(e) => beginGainDrag(e, seg, i)}
+                          onDoubleClick={(e) => handleRemoveGainKeyframe(e, seg, i)}
+                          className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full bg-yellow-300 border border-black/50 pointer-events-auto cursor-move hover:scale-150 transition-transform"
+                          style={{ left: `${toX(localTime)}px`, top: `${gainToY(k.gain * volume)}%` }}
+                          title={`${gainToDb(k.gain * volume)} (double-click to remove)`}
+                      />
+                  );
+              })}
+
+              {/* Fade handles */}
+              <div
+                  onMouseDown={(e) => beginGainDrag(e, seg, 'fadeIn')}
+                  className="absolute top-0 w-2 h-2 -ml-1 bg-white/80 border border-black/50 pointer-events-auto cursor-ew-resize opacity-0 group-hover/item:opacity-100"
+                  style={{ left: `${Math.max(4, toX(fades[1].time))}px` }}
+                  title={`Fade In ${(seg.fadeIn || 0).toFixed(2)}s`}
+              />
+              <div
+                  onMouseDown={(e) => beginGainDrag(e, seg, 'fadeOut')}
+                  className="absolute top-0 w-2 h-2 -ml-1 bg-white/80 border border-black/50 pointer-events-auto cursor-ew-resize opacity-0 group-hover/item:opacity-100"
+                  style={{ left: `${Math.min(width - 4, toX(fades[2].time))}px` }}
+                  title={`Fade Out ${(seg.fadeOut || 0).toFixed(2)}s`}
+              />
+          </div>
+      );
+  };
+
+  // Band over the transition window plus the button that opens the transition panel, drawn at the cut
+  const renderTransitionMarker = (seg: TimelineSegment, next: TimelineSegment) => {
+      const transition = next.transitionIn;
+      const cutX = (seg.startFrame / fps + seg.duration) * zoom;
+      const width = transition ? Math.min(transition.duration, seg.duration, next.duration) * zoom : 0;
+      return (
+          <>
+              {transition && (
+                  <div
+                      className="absolute top-1 bottom-1 z-[15] pointer-events-none bg-gradient-to-r from-transparent via-emerald-400/30 to-transparent border-x border-emerald-400/40"
+                      style={{ left: `${cutX - width / 2}px`, width: `${width}px` }}
+                  />
+              )}
+              <button
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                      const rect = e.currentTarget.getBoundingClientRect();
+                      setTransitionPanel(transitionPanel?.segmentId === next.id ? null : { segmentId: next.id, x: rect.left - 112, y: rect.top - 230 });
+                  }}
+                  className={`absolute bottom-2 z-20 -ml-2 w-4 h-4 rounded flex items-center justify-center border backdrop-blur-md shadow-lg transition-colors ${
+                      transition ? 'bg-emerald-500 border-emerald-400 text-black' : 'bg-black/50 border-white/20 text-white opacity-0 group-hover:opacity-100 hover:bg-emerald-500/60'}`}
+                  style={{ left: `${cutX}px` }}
+                  title={transition ? `${getTransitionLabel(transition.type)} ${transition.duration.toFixed(1)}s (click to edit)` : 'Add Transition'}
+              >
+                  <Square2StackIcon className="w-2.5 h-2.5" />
+              </button>
+          </>
+      );
+  };
+
+  const renderMainLane = (trackSegments: TimelineSegment[]) => (
+      <>
+          {trackSegments.map((seg, idx) => (
+              <React.Fragment key={seg.id}>
+                  <div 
+                      onMouseDown={(e) => handleMouseDownSegment(e, seg)}
+                      className={`absolute top-1 bottom-1 rounded-lg border overflow-hidden hover:z-10 cursor-grab active:cursor-grabbing flex flex-col group/item transition-all duration-75
+                          ${isDraggingId === seg.id ? 'z-50 shadow-2xl border-emerald-500 ring-2 ring-emerald-500/30 scale-105' : 
+                            seg.linkedSegmentId ? 'border-purple-500/50 bg-purple-900/20' : 'bg-gray-800/40 border-white/10 hover:border-emerald-500/50'}`}
+                      style={getStyle(seg.startFrame, seg.duration)}
+                  >
+                      <div className="h-1 bg-white/20 w-full z-20 relative"></div>
+                      {renderTrimHandles(seg)}
+                                  
+                      {/* THUMBNAIL BACKGROUND */}
+                      <div className="absolute inset-0 opacity-60 group-hover:opacity-80 transition-opacity bg-black pointer-events-none">
+                          {/* Image Thumb */}
+                          {seg.assetType === AssetType.IMAGE && seg.assetUrl && (
+                              <img src={seg.assetUrl} className="w-full h-full object-cover" alt="" draggable={false} />
+                          )}
+                          {/* Video Thumb - Static Video Element */}
+                          {seg.assetType === AssetType.VIDEO && seg.assetUrl && (
+                              <video 
+                                  src={seg.assetUrl} 
+                                  className="w-full h-full object-cover pointer-events-none" 
+                                  muted 
+                                  preload="metadata"
+                                  onLoadedMetadata={(e) => e.currentTarget.currentTime = getSourceIn(seg) + 0.5} 
+                              />
+                          )}
+                      </div>
+
+                      <div className="flex justify-between items-center px-2 relative z-20 mt-1 pointer-events-none">
+                          <span className="text-[10px] font-bold text-white shadow-black drop-shadow-md truncate">{seg.label}</span>
+                      </div>
+                                  
+                      {/* Actions Layer */}
+                      <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity bg-black/60 rounded p-1 z-30 backdrop-blur-sm">
+                          {seg.linkedSegmentId && (
+                              <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onUnlinkSegment(seg.id)} className="p-0.5 hover:text-red-400 pointer-events-auto" title="Unlink"><XMarkIcon className="w-3 h-3" /></button>
+                          )}
+                          <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onRippleDeleteSegment(seg.id)} className="p-0.5 hover:text-red-400 pointer-events-auto" title="Ripple Delete"><BackspaceIcon className="w-3 h-3" /></button>
+                          <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onDeleteSegment(seg.id)} className="p-0.5 hover:text-red-500 pointer-events-auto" title="Delete"><TrashIcon className="w-3 h-3" /></button>
+                      </div>
+                  </div>
+                              
+                  {/* Transition (only on cuts where the two clips touch) */}
+                  {isDraggingId !== seg.id && idx < trackSegments.length - 1 && Math.abs(seg.endFrame - trackSegments[idx + 1].startFrame) < 0.5 && renderTransitionMarker(seg, trackSegments[idx + 1])}
+
+                  {/* Continuity Bridge */}
+                  {isDraggingId !== seg.id && idx < trackSegments.length - 1 && (
+                      <div 
+                          className="absolute top-1/2 -mt-3 z-20 cursor-pointer hover:scale-125 transition-transform"
+                          style={{ left: `${((seg.startFrame/fps + seg.duration) * zoom)}px` }}
+                          onClick={() => onCheckContinuity(seg, trackSegments[idx+1])}
+                      >
+                          <div className="w-5 h-5 -ml-2.5 rounded-full bg-black/50 border border-white/20 backdrop-blur-md shadow-lg flex items-center justify-center hover:bg-emerald-500 hover:border-emerald-400 transition-colors">
+                              <LinkIcon className="w-3 h-3 text-white" />
+                          </div>
+                      </div>
+                  )}
+              </React.Fragment>
+          ))}
+      </>
+  );
+
+  const renderOverlayLane = (trackSegments: TimelineSegment[]) => (
+      <>
+          {trackSegments.map(seg => (
+              <div key={seg.id}
+                  onMouseDown={(e) => handleMouseDownSegment(e, seg)}
+                  className={`absolute top-1 bottom-1 rounded-md bg-purple-500/20 border border-purple-500/30 cursor-grab overflow-hidden backdrop-blur-sm group/item ${isDraggingId === seg.id ? 'z-50 shadow-lg ring-2 ring-purple-500' : 'hover:bg-purple-500/30'}`}
+                  style={getStyle(seg.startFrame, seg.duration)}
+              >
+                  {seg.assetUrl && (seg.assetType === AssetType.VIDEO ? (
+                      <video
+                          src={seg.assetUrl}
+                          className="absolute inset-0 w-full h-full object-cover opacity-50 pointer-events-none"
+                          muted
+                          preload="metadata"
+                          onLoadedMetadata={(e) => e.currentTarget.currentTime = getSourceIn(seg) + 0.5}
+                      />
+                  ) : (
+                      <img src={seg.assetUrl} className="absolute inset-0 w-full h-full object-cover opacity-50 pointer-events-none" alt="" />
+                  ))}
+                  {renderTrimHandles(seg)}
+                  <span className="relative z-10 text-[9px] text-purple-100 px-1 truncate block mt-1 drop-shadow pointer-events-none">{seg.label}</span>
+                  <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity bg-black/60 rounded p-0.5 z-30">
+                      <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onRippleDeleteSegment(seg.id)} className="p-0.5 hover:text-red-400 pointer-events-auto" title="Ripple Delete"><BackspaceIcon className="w-3 h-3" /></button>
+                      <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onDeleteSegment(seg.id)} className="p-0.5 hover:text-red-500 pointer-events-auto" title="Delete"><TrashIcon className="w-3 h-3" /></button>
+                  </div>
+              </div>
+          ))}
+      </>
+  );
+
+  const renderTextLane = (trackSegments: TimelineSegment[], variant: keyof typeof TEXT_LANE_STYLES) => {
+      const style = TEXT_LANE_STYLES[variant];
+      return (
+          <>
+              {trackSegments.map(seg => (
+                  <div key={seg.id}
+                      onMouseDown={(e) => handleMouseDownSegment(e, seg)}
+                      onDoubleClick={(e) => openTextPanel(e, seg)}
+                      className={`absolute top-1 bottom-1 rounded-md border cursor-grab overflow-hidden backdrop-blur-sm group/item ${style.clip} ${isDraggingId === seg.id ? `z-50 shadow-lg ring-2 ${style.ring}` : ''}`}
+                      style={getStyle(seg.startFrame, seg.duration)}
+                      title="Double-click to edit"
+                  >
+                      {renderTrimHandles(seg)}
+                      <span className={`relative z-10 text-[9px] font-bold ${style.label} px-1 truncate block mt-1 drop-shadow pointer-events-none`}>{seg.label}</span>
+                      <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity bg-black/60 rounded p-0.5 z-30">
+                          <button onMouseDown={(e) => e.stopPropagation()} onClick={(e) => openTextPanel(e, seg)} className={`p-0.5 ${style.edit} pointer-events-auto`} title="Edit Text"><PencilSquareIcon className="w-3 h-3" /></button>
+                          <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onDeleteSegment(seg.id)} className="p-0.5 hover:text-red-500 pointer-events-auto" title="Delete"><TrashIcon className="w-3 h-3" /></button>
+                      </div>
+                  </div>
+              ))}
+          </>
+      );
+  };
+
+  const renderAudioLane = (trackSegments: TimelineSegment[]) => (
+      <>
+          {trackSegments.map((committed) => {
+              // Show an in-progress gain drag before it is committed
+              const seg = gainDraft?.id === committed.id ? { ...committed, ...gainDraft.updates } : committed;
+              return (
+                  <div 
+                     key={seg.id}
+                     onMouseDown={(e) => handleMouseDownSegment(e, seg)}
+                     className={`absolute top-1 bottom-1 rounded-md overflow-hidden flex flex-col justify-center cursor-grab group/item backdrop-blur-sm transition-all ${isDraggingId === seg.id ? 'z-50 shadow-lg border-blue-400 ring-2 ring-blue-500' : 'bg-blue-500/10 border border-blue-500/20 hover:bg-blue-500/20'}`}
+                     style={getStyle(seg.startFrame, seg.duration)}
+                  >
+                     {renderTrimHandles(seg)}
+                     <div className="absolute inset-0 flex items-center opacity-40 pointer-events-none">
+                         <div className="w-full h-8 flex items-center gap-[1px] px-1">
+                              {Array.from({length: Math.ceil(seg.duration * 8)}).map((_, i) => (
+                                 <div key={i} className="flex-1 bg-blue-400 rounded-full" style={{ height: `${20 + Math.random() * 60}%` }}></div>
+                              ))}
+                         </div>
+                     </div>
+                     <div className="flex justify-between px-2 relative z-10 pointer-events-none">
+                          <span className="text-[9px] text-blue-100 font-mono truncate">{seg.label}</span>
+                     </div>
+                     {renderGainEnvelope(seg)}
+                              
+                     {/* Actions Layer (bottom corner, clear of the fade handles) */}
+                     <div className="absolute bottom-1 right-1 flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity bg-black/60 rounded p-1 z-30">
+                         <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onRippleDeleteSegment(seg.id)} className="p-0.5 hover:text-red-400 pointer-events-auto" title="Ripple Delete"><BackspaceIcon className="w-3 h-3" /></button>
+                         <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onDeleteSegment(seg.id)} className="p-0.5 hover:text-red-500 pointer-events-auto" title="Delete"><TrashIcon className="w-3 h-3" /></button>
+                     </div>
+                  </div>
+              );
+          })}
+      </>
+  );
+
+  const handleSubtitleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      const trackId = importTrackIdRef.current;
+      e.target.value = ''; // Picking the same file again still fires a change
+      if (!file || !trackId) return;
+      onImportCaptions(trackId, file.name, await file.text());
+  };
+
   const handleDragOver = (e: React.DragEvent) => e.preventDefault();
   
-  const handleDrop = (e: React.DragEvent, trackId: TrackType) => {
+  const handleDrop = (e: React.DragEvent, trackId: string) => {
       e.preventDefault();
       const data = e.dataTransfer.getData("application/json");
       if (data && scrollContainerRef.current) {
@@ -174,7 +844,39 @@ const Timeline: React.FC<TimelineProps> = ({
                 Timeline
             </h3>
             <div className="flex items-center gap-4">
-                 <div className="flex items-center gap-2">
+                 <button
+                    onClick={handleSplit}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold text-gray-300 bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                    title="Split at Playhead (S)"
+                 >
+                    <ScissorsIcon className="w-3 h-3" />
+                    Split
+                 </button>
+                 <button
+                    onClick={onToggleMagnetic}
+                    className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border transition-colors ${isMagnetic ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' : 'text-gray-300 bg-white/5 border-white/10 hover:bg-white/10 hover:text-white'}`}
+                    title="Magnetic V1: keep main track clips butted together"
+                 >
+                    <ArrowsPointingInIcon className="w-3 h-3" />
+                    Magnetic
+                 </button>
+                 <button
+                    onClick={() => setIsSnapping(!isSnapping)}
+                    className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold border transition-colors ${isSnapping ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' : 'text-gray-300 bg-white/5 border-white/10 hover:bg-white/10 hover:text-white'}`}
+                    title="Snap to clips, playhead, markers and seconds (hold Alt while dragging to invert)"
+                 >
+                    <ArrowsRightLeftIcon className="w-3 h-3" />
+                    Snap
+                 </button>
+                 <button
+                    onClick={() => onAddMarker(Math.round(currentTime * fps))}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold text-gray-300 bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                    title="Add Marker at Playhead (M)"
+                 >
+                    <BookmarkIcon className="w-3 h-3" />
+                    Marker
+                 </button>
+                 <div className="flex items-center gap-2 border-l border-white/10 pl-4">
                     <span className="text-[10px] text-gray-400">Zoom</span>
                     <input 
                         type="range" min="10" max="200" value={zoom} 
@@ -191,7 +893,7 @@ const Timeline: React.FC<TimelineProps> = ({
         {/* Timeline Canvas */}
         <div 
             ref={scrollContainerRef}
-            className="flex-1 overflow-x-auto overflow-y-hidden relative bg-black/40 custom-scrollbar timeline-scroll-container"
+            className="flex-1 overflow-x-auto overflow-y-auto relative bg-black/40 custom-scrollbar timeline-scroll-container"
         >
             <div style={{ width: `${totalWidth}px`, minWidth: '100%' }} className="relative h-full flex flex-col">
                 
@@ -210,134 +912,87 @@ const Timeline: React.FC<TimelineProps> = ({
                                 {i % 5 === 0 && <span className="absolute -top-3 left-1 text-[9px] text-gray-500 font-mono">{i}s</span>}
                             </div>
                         ))}
+                         {markers.map(frame => (
+                            <div
+                                key={frame}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                onClick={() => onSeek(frame / fps)}
+                                onDoubleClick={() => onRemoveMarker(frame)}
+                                className="absolute top-0 bottom-0 w-2 -ml-1 cursor-pointer z-10 flex justify-center"
+                                style={{ left: `${(frame / fps) * zoom}px` }}
+                                title="Marker (double-click to remove)"
+                            >
+                                <div className="w-2 h-2 mt-0.5 bg-amber-400 rotate-45 shadow-[0_0_6px_rgba(251,191,36,0.6)]"></div>
+                            </div>
+                        ))}
                     </div>
                 </div>
 
                 {/* TRACKS CONTAINER */}
                 <div className="py-2 space-y-1 relative flex-1">
-                    {/* VIDEO TRACK */}
-                    <div className="h-24 flex group">
-                        {/* Header (Sticky Left) */}
-                        <div className="w-24 bg-white/5 border-r border-white/5 flex flex-col items-center justify-center sticky left-0 z-40 backdrop-blur-md border-b border-white/5 shrink-0 shadow-lg select-none">
-                            <VideoCameraIcon className="w-4 h-4 text-gray-400 mb-1" />
-                            <span className="text-[9px] font-bold text-gray-500">V1 MAIN</span>
-                        </div>
-                        {/* Lane Content */}
-                        <div className="flex-1 bg-white/5 border-b border-white/5 relative my-1 mr-1 rounded-r-lg" onDragOver={handleDragOver} onDrop={(e) => handleDrop(e, TrackType.VIDEO_MAIN)}>
-                            {videoSegments.map((seg, idx) => (
-                                <React.Fragment key={seg.id}>
-                                    <div 
-                                        onMouseDown={(e) => handleMouseDownSegment(e, seg)}
-                                        className={`absolute top-1 bottom-1 rounded-lg border overflow-hidden hover:z-10 cursor-grab active:cursor-grabbing flex flex-col group/item transition-all duration-75
-                                            ${isDraggingId === seg.id ? 'z-50 shadow-2xl border-emerald-500 ring-2 ring-emerald-500/30 scale-105' : 
-                                              seg.linkedSegmentId ? 'border-purple-500/50 bg-purple-900/20' : 'bg-gray-800/40 border-white/10 hover:border-emerald-500/50'}`}
-                                        style={getStyle(seg.startFrame, seg.duration)}
-                                    >
-                                        <div className="h-1 bg-white/20 w-full z-20 relative"></div>
-                                        
-                                        {/* THUMBNAIL BACKGROUND */}
-                                        <div className="absolute inset-0 opacity-60 group-hover:opacity-80 transition-opacity bg-black pointer-events-none">
-                                            {/* Image Thumb */}
-                                            {seg.assetType === AssetType.IMAGE && seg.assetUrl && (
-                                                <img src={seg.assetUrl} className="w-full h-full object-cover" alt="" draggable={false} />
-                                            )}
-                                            {/* Video Thumb - Static Video Element */}
-                                            {seg.assetType === AssetType.VIDEO && seg.assetUrl && (
-                                                <video 
-                                                    src={seg.assetUrl} 
-                                                    className="w-full h-full object-cover pointer-events-none" 
-                                                    muted 
-                                                    preload="metadata"
-                                                    onLoadedMetadata={(e) => e.currentTarget.currentTime = 0.5} 
-                                                />
-                                            )}
-                                        </div>
-
-                                        <div className="flex justify-between items-center px-2 relative z-20 mt-1 pointer-events-none">
-                                            <span className="text-[10px] font-bold text-white shadow-black drop-shadow-md truncate">{seg.label}</span>
-                                        </div>
-                                        
-                                        {/* Actions Layer */}
-                                        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity bg-black/60 rounded p-1 z-30 backdrop-blur-sm">
-                                            {seg.linkedSegmentId && (
-                                                <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onUnlinkSegment(seg.id)} className="p-0.5 hover:text-red-400 pointer-events-auto" title="Unlink"><XMarkIcon className="w-3 h-3" /></button>
-                                            )}
-                                            <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onDeleteSegment(seg.id)} className="p-0.5 hover:text-red-500 pointer-events-auto"><TrashIcon className="w-3 h-3" /></button>
-                                        </div>
-                                    </div>
-                                    
-                                    {/* Continuity Bridge */}
-                                    {isDraggingId !== seg.id && idx < videoSegments.length - 1 && (
-                                        <div 
-                                            className="absolute top-1/2 -mt-3 z-20 cursor-pointer hover:scale-125 transition-transform"
-                                            style={{ left: `${((seg.startFrame/30 + seg.duration) * zoom)}px` }}
-                                            onClick={() => onCheckContinuity(seg, videoSegments[idx+1])}
-                                        >
-                                            <div className="w-5 h-5 -ml-2.5 rounded-full bg-black/50 border border-white/20 backdrop-blur-md shadow-lg flex items-center justify-center hover:bg-emerald-500 hover:border-emerald-400 transition-colors">
-                                                <LinkIcon className="w-3 h-3 text-white" />
-                                            </div>
-                                        </div>
-                                    )}
-                                </React.Fragment>
-                            ))}
-                        </div>
-                    </div>
-
-                    {/* OVERLAY TRACK */}
-                    <div className="h-16 flex group">
-                        <div className="w-24 bg-white/5 border-r border-white/5 flex flex-col items-center justify-center sticky left-0 z-40 backdrop-blur-md border-b border-white/5 shrink-0 shadow-lg">
-                            <SparklesIcon className="w-4 h-4 text-purple-400 mb-1" />
-                            <span className="text-[9px] font-bold text-gray-500">V2 FX</span>
-                        </div>
-                         <div className="flex-1 bg-white/5 border-b border-white/5 relative my-1 mr-1 rounded-r-lg border-dashed border-white/10" onDragOver={handleDragOver} onDrop={(e) => handleDrop(e, TrackType.OVERLAY)}>
-                            {segments.filter(s => s.trackId === TrackType.OVERLAY).map(seg => (
-                                <div key={seg.id}
-                                    onMouseDown={(e) => handleMouseDownSegment(e, seg)}
-                                    className={`absolute top-1 bottom-1 rounded-md bg-purple-500/20 border border-purple-500/30 cursor-grab overflow-hidden backdrop-blur-sm ${isDraggingId === seg.id ? 'z-50 shadow-lg ring-2 ring-purple-500' : 'hover:bg-purple-500/30'}`}
-                                    style={getStyle(seg.startFrame, seg.duration)}
+                    {tracks.map(track => {
+                        const trackSegments = segments.filter(s => s.trackId === track.id).sort((a, b) => a.startFrame - b.startFrame);
+                        const isMain = track.id === mainTrackId;
+                        const isAudio = track.kind === TrackKind.AUDIO;
+                        const isText = track.kind === TrackKind.TEXT;
+                        const isCaption = track.kind === TrackKind.CAPTION;
+                        return (
+                            <div key={track.id} className={`${isMain ? 'h-24' : 'h-16'} flex group`}>
+                                {renderTrackHeader(track, isMain)}
+                                <div
+                                    className={`flex-1 bg-white/5 border-b border-white/5 relative my-1 mr-1 rounded-r-lg ${!isMain && !isAudio && !isText && !isCaption ? 'border-dashed border-white/10' : ''}`}
+                                    onDragOver={handleDragOver}
+                                    onDrop={(e) => handleDrop(e, track.id)}
                                 >
-                                    {seg.assetUrl && <img src={seg.assetUrl} className="absolute inset-0 w-full h-full object-cover opacity-50 pointer-events-none" alt="" />}
-                                    <span className="relative z-10 text-[9px] text-purple-100 px-1 truncate block mt-1 drop-shadow pointer-events-none">{seg.label}</span>
+                                    {isMain ? renderMainLane(trackSegments) : isAudio ? renderAudioLane(trackSegments) : isText ? renderTextLane(trackSegments, 'title') : isCaption ? renderTextLane(trackSegments, 'caption') : renderOverlayLane(trackSegments)}
                                 </div>
-                            ))}
-                         </div>
-                    </div>
+                            </div>
+                        );
+                    })}
 
-                    {/* AUDIO TRACK */}
-                    <div className="h-16 flex group">
-                        <div className="w-24 bg-white/5 border-r border-white/5 flex flex-col items-center justify-center sticky left-0 z-40 backdrop-blur-md border-b border-white/5 shrink-0 shadow-lg">
-                             <MusicalNoteIcon className="w-4 h-4 text-blue-400 mb-1" />
-                            <span className="text-[9px] font-bold text-gray-500">A1 AUDIO</span>
-                        </div>
-                        <div className="flex-1 bg-white/5 border-b border-white/5 relative my-1 mr-1 rounded-r-lg" onDragOver={handleDragOver} onDrop={(e) => handleDrop(e, TrackType.AUDIO)}>
-                             {audioSegments.map((seg) => (
-                                 <div 
-                                    key={seg.id}
-                                    onMouseDown={(e) => handleMouseDownSegment(e, seg)}
-                                    className={`absolute top-1 bottom-1 rounded-md overflow-hidden flex flex-col justify-center cursor-grab group/item backdrop-blur-sm transition-all ${isDraggingId === seg.id ? 'z-50 shadow-lg border-blue-400 ring-2 ring-blue-500' : 'bg-blue-500/10 border border-blue-500/20 hover:bg-blue-500/20'}`}
-                                    style={getStyle(seg.startFrame, seg.duration)}
-                                 >
-                                    <div className="absolute inset-0 flex items-center opacity-40 pointer-events-none">
-                                        <div className="w-full h-8 flex items-center gap-[1px] px-1">
-                                             {Array.from({length: Math.ceil(seg.duration * 8)}).map((_, i) => (
-                                                <div key={i} className="flex-1 bg-blue-400 rounded-full" style={{ height: `${20 + Math.random() * 60}%` }}></div>
-                                             ))}
-                                        </div>
-                                    </div>
-                                    <div className="flex justify-between px-2 relative z-10 pointer-events-none">
-                                         <span className="text-[9px] text-blue-100 font-mono truncate">{seg.label}</span>
-                                    </div>
-                                    
-                                    {/* Actions Layer */}
-                                    <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/item:opacity-100 transition-opacity bg-black/60 rounded p-1 z-30">
-                                        <button onMouseDown={(e) => e.stopPropagation()} onClick={() => onDeleteSegment(seg.id)} className="p-0.5 hover:text-red-500 pointer-events-auto"><TrashIcon className="w-3 h-3" /></button>
-                                    </div>
-                                 </div>
-                             ))}
+                    {/* ADD TRACK */}
+                    <div className="flex">
+                        <div className="w-24 sticky left-0 z-40 flex gap-1 px-1 shrink-0">
+                            <button
+                                onClick={() => onAddTrack(TrackKind.VIDEO)}
+                                className="flex-1 flex items-center justify-center gap-0.5 py-1 rounded text-[9px] font-bold text-gray-400 bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                                title="Add Video Track"
+                            >
+                                <PlusIcon className="w-2.5 h-2.5" />V
+                            </button>
+                            <button
+                                onClick={() => onAddTrack(TrackKind.TEXT)}
+                                className="flex-1 flex items-center justify-center gap-0.5 py-1 rounded text-[9px] font-bold text-gray-400 bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                                title="Add Text Track"
+                            >
+                                <PlusIcon className="w-2.5 h-2.5" />T
+                            </button>
+                            <button
+                                onClick={() => onAddTrack(TrackKind.CAPTION)}
+                                className="flex-1 flex items-center justify-center gap-0.5 py-1 rounded text-[9px] font-bold text-gray-400 bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                                title="Add Caption Track"
+                            >
+                                <PlusIcon className="w-2.5 h-2.5" />C
+                            </button>
+                            <button
+                                onClick={() => onAddTrack(TrackKind.AUDIO)}
+                                className="flex-1 flex items-center justify-center gap-0.5 py-1 rounded text-[9px] font-bold text-gray-400 bg-white/5 border border-white/10 hover:bg-white/10 hover:text-white transition-colors"
+                                title="Add Audio Track"
+                            >
+                                <PlusIcon className="w-2.5 h-2.5" />A
+                            </button>
                         </div>
                     </div>
                 </div>
                 
+                {/* SNAP GUIDE */}
+                {snapGuideFrame !== null && (
+                    <div
+                        className="absolute top-0 bottom-0 w-0 border-l border-dashed border-cyan-400 z-40 pointer-events-none"
+                        style={{ left: `${HEADER_WIDTH + (snapGuideFrame / fps) * zoom}px` }}
+                    />
+                )}
+
                 {/* PLAYHEAD (UNIFIED LINE & HEAD) */}
                 <div 
                     className="absolute top-0 bottom-0 w-[1px] bg-red-500 z-40 pointer-events-none transition-transform duration-75 will-change-transform shadow-[0_0_10px_rgba(239,68,68,0.8)]"
@@ -348,6 +1003,12 @@ const Timeline: React.FC<TimelineProps> = ({
                 </div>
             </div>
         </div>
+
+        {renderDuckingPanel()}
+        {renderTransitionPanel()}
+        {renderTextMenu()}
+        {renderTextPanel()}
+        <input ref={subtitleInputRef} type="file" accept={SUBTITLE_FILE_TYPES} className="hidden" onChange={handleSubtitleFile} />
     </div>
   );
 };
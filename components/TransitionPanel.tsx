@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Transition, TransitionType } from '../types';
+import { TRANSITION_TYPES, DEFAULT_TRANSITION } from '../utils/transitions';
+import { XMarkIcon } from '@heroicons/react/24/solid';
+
+interface TransitionPanelProps {
+  transition: Transition | undefined; // On the clip after the cut
+  maxDuration: number; // Seconds; the shorter of the two clips
+  position: { x: number; y: number }; // Viewport anchor (fixed positioning escapes the timeline's scroll clip)
+  onChange: (transition: Transition | undefined) => void;
+  onClose: () => void;
+}
+
+const TransitionPanel: React.FC<TransitionPanelProps> = ({ transition, maxDuration, position, onChange, onClose }) => {
+  // Duration drags stay local until release, so a drag is one undo step
+  const [draftDuration, setDraftDuration] = useState<number | null>(null);
+  const duration = Math.min(draftDuration ?? transition?.duration ?? DEFAULT_TRANSITION.duration, maxDuration);
+
+  const commitDuration = () => {
+    if (draftDuration === null || !transition) return;
+    onChange({ ...transition, duration: draftDuration });
+    setDraftDuration(null);
+  };
+
+  const selectType = (type: TransitionType | null) =>
+    onChange(type ? { type, duration: Math.min(transition?.duration ?? DEFAULT_TRANSITION.duration, maxDuration) } : undefined);
+
+  const optionClass = (selected: boolean) => `px-2 py-1.5 rounded text-[10px] font-bold border transition-colors ${
+    selected ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'bg-black/40 border-white/10 text-gray-400 hover:text-white hover:border-white/30'}`;
+
+  return (
+    <div
+      className="fixed w-60 bg-gray-900/95 border border-white/10 rounded-xl shadow-2xl z-[70] backdrop-blur-xl overflow-hidden"
+      style={{ left: position.x, top: position.y }}
+    >
+      <div className="px-3 py-2 border-b border-white/5 flex justify-between items-center">
+        <span className="text-[10px] font-bold text-white/50 uppercase tracking-wider">Transition</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors">
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-1.5">
+          <button onClick={() => selectType(null)} className={optionClass(!transition)}>Cut</button>
+          {TRANSITION_TYPES.map(t => (
+            <button key={t.type} onClick={() => selectType(t.type)} className={optionClass(transition?.type === t.type)}>
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <label className="block">
+          <div className="flex justify-between text-[10px] text-gray-400 mb-1">
+            <span>Duration</span>
+            <span className="font-mono text-emerald-300">{duration.toFixed(1)}s</span>
+          </div>
+          <input
+            type="range" min={0.1} max={Math.max(0.1, maxDuration)} step={0.1} value={duration}
+            disabled={!transition}
+            onChange={(e) => setDraftDuration(parseFloat(e.target.value))}
+            onMouseUp={commitDuration}
+            onTouchEnd={commitDuration}
+            onKeyUp={commitDuration}
+            className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer disabled:opacity-30 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-2 [&::-webkit-slider-thumb]:h-2 [&::-webkit-slider-thumb]:bg-emerald-500 [&::-webkit-slider-thumb]:rounded-full"
+          />
+        </label>
+        <p className="text-[10px] text-gray-500">Centred on the cut; each clip runs past its trim point by half the duration.</p>
+      </div>
+    </div>
+  );
+};
+
+export default TransitionPanel;
@@ -0,0 +1,194 @@
+import { Asset, ProjectData } from '../types';
+import { blobToBase64, base64ToBlob } from '../utils/helpers';
+import { collectProjectAssets, stripProjectMedia, hydrateProjectMedia, migrateProject, PROJECT_SCHEMA_VERSION } from './projectService';
+
+// Metadata lives in IndexedDB; media blobs live in OPFS, falling back to an
+// IndexedDB object store on browsers without writable OPFS handles.
+const DB_NAME = 'segmenta';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const MEDIA_STORE = 'media';
+const SESSION_KEY = 'last';
+const OPFS_DIR = 'segmenta-media';
+
+export interface SessionSnapshot {
+    // Project schema the snapshot was written with; missing on snapshots from before it was recorded
+    schemaVersion?: number;
+    savedAt: string;
+    project: ProjectData;
+    mediaIds: string[];
+}
+
+// Media already persisted from this tab, so unchanged assets are not rewritten on every save
+const persistedMedia = new Set<string>();
+let saveQueue: Promise<void> = Promise.resolve();
+
+const openDb = (): Promise<IDBDatabase> => {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+            if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+const getMediaDir = async (): Promise<FileSystemDirectoryHandle | null> => {
+    try {
+        const root = await navigator.storage.getDirectory();
+        return await root.getDirectoryHandle(OPFS_DIR, { create: true });
+    } catch {
+        return null;
+    }
+};
+
+const writeMedia = async (id: string, blob: Blob) => {
+    const dir = await getMediaDir();
+    if (dir) {
+        try {
+            const handle = await dir.getFileHandle(id, { create: true });
+            const writable = await handle.createWritable();
+            await writable.write(blob);
+            await writable.close();
+            return;
+        } catch (e) {
+            console.warn('[Autosave] OPFS write failed, using IndexedDB', e);
+        }
+    }
+    await withStore(MEDIA_STORE, 'readwrite', store => store.put(blob, id));
+};
+
+const readMedia = async (id: string): Promise<Blob | null> => {
+    const dir = await getMediaDir();
+    if (dir) {
+        try {
+            const handle = await dir.getFileHandle(id);
+            return await handle.getFile();
+        } catch { }
+    }
+    const blob = await withStore<Blob | undefined>(MEDIA_STORE, 'readonly', store => store.get(id));
+    return blob || null;
+};
+
+const deleteMedia = async (id: string) => {
+    const dir = await getMediaDir();
+    if (dir) {
+        try { await dir.removeEntry(id); } catch { }
+    }
+    try { await withStore(MEDIA_STORE, 'readwrite', store => store.delete(id)); } catch { }
+};
+
+const getAssetBlob = async (asset: Asset): Promise<Blob | null> => {
+    if (asset.base64) return base64ToBlob(asset.base64, asset.mimeType);
+    // Remote URLs outlive the tab, so they are kept as references only
+    if (!asset.url || /^https?:\/\//.test(asset.url)) return null;
+    try {
+        const response = await fetch(asset.url);
+        return await response.blob();
+    } catch (e) {
+        console.warn(`[Autosave] Could not read media for "${asset.name}"`, e);
+        return null;
+    }
+};
+
+const writeSession = async (data: ProjectData) => {
+    const mediaIds: string[] = [];
+
+    for (const asset of collectProjectAssets(data)) {
+        if (persistedMedia.has(asset.id)) {
+            mediaIds.push(asset.id);
+            continue;
+        }
+        const blob = await getAssetBlob(asset);
+        if (!blob) continue;
+        await writeMedia(asset.id, blob);
+        persistedMedia.add(asset.id);
+        mediaIds.push(asset.id);
+    }
+
+    const previous = await withStore<SessionSnapshot | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+
+    const snapshot: SessionSnapshot = {
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        project: stripProjectMedia(data, new Set(mediaIds)),
+        mediaIds
+    };
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(snapshot, SESSION_KEY));
+
+    // Only prune once the new snapshot no longer references the old media
+    const stale = (previous?.mediaIds || []).filter(id => !mediaIds.includes(id));
+    for (const id of stale) {
+        await deleteMedia(id);
+        persistedMedia.delete(id);
+    }
+};
+
+export const autosaveSession = (data: ProjectData): Promise<void> => {
+    // Serialize saves so two snapshots never interleave their media writes
+    saveQueue = saveQueue
+        .then(() => writeSession(data))
+        .catch(e => console.error('[Autosave] Failed to persist session:', e));
+    return saveQueue;
+};
+
+export const loadLastSession = async (): Promise<SessionSnapshot | null> => {
+    try {
+        const snapshot = await withStore<SessionSnapshot | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+        return snapshot || null;
+    } catch (e) {
+        console.warn('[Autosave] Could not read last session:', e);
+        return null;
+    }
+};
+
+export const restoreSession = async (snapshot: SessionSnapshot): Promise<ProjectData> => {
+    // Unversioned snapshots run the whole migration chain, which only fills in what they lack
+    const project = migrateProject(snapshot.project, snapshot.schemaVersion ?? 1);
+    const media: Record<string, { url: string; base64: string }> = {};
+
+    for (const id of snapshot.mediaIds) {
+        const blob = await readMedia(id);
+        if (!blob) {
+            console.warn(`[Autosave] Media ${id} missing from storage`);
+            continue;
+        }
+        media[id] = { url: URL.createObjectURL(blob), base64: await blobToBase64(blob) };
+        persistedMedia.add(id);
+    }
+
+    return hydrateProjectMedia(project, media);
+};
+
+export const clearLastSession = async (): Promise<void> => {
+    const snapshot = await loadLastSession();
+    for (const id of snapshot?.mediaIds || []) {
+        await deleteMedia(id);
+    }
+    persistedMedia.clear();
+    try {
+        await withStore(SESSION_STORE, 'readwrite', store => store.delete(SESSION_KEY));
+    } catch (e) {
+        console.warn('[Autosave] Could not clear last session:', e);
+    }
+};
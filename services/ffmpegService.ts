@@ -1,14 +1,33 @@
 
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
-import { TimelineSegment, TrackType, AssetType, Asset } from '../types';
+import { fetchFile } from '@ffmpeg/util';
+// The cores ship with the app as local assets, so export works offline
+import coreURL from '@ffmpeg/core?url';
+import wasmURL from '@ffmpeg/core/wasm?url';
+import coreMtURL from '@ffmpeg/core-mt?url';
+import wasmMtURL from '@ffmpeg/core-mt/wasm?url';
+// The worker is small enough to be inlined as a data: URL, but the core must start it from a same-origin file
+import workerMtURL from '@ffmpeg/core-mt/worker?url&no-inline';
+import { TimelineSegment, Track, AssetType, Asset, ProjectSettings, DuckingSettings, RenderOptions, RenderResult, LoudnessReport, ExportPreset, Transition } from '../types';
+import { getSourceIn, cropToRange } from '../utils/timeline';
+import { framesToSeconds } from '../utils/projectSettings';
+import { getMainTrackId, getOverlayTrackIds, getAudioTrackIds, getTextTrackIds } from '../utils/tracks';
+import { GainPoint, getEnvelopePoints, getFadePoints, buildGainExpression, dbToGain } from '../utils/audioGain';
+import { buildLoudnormFilter, parseLoudnormStats, formatLufs } from '../utils/loudness';
+import { getOutputFormat, VIDEO_CODEC_LABELS } from '../utils/exportPresets';
+import { isReframeAspect, buildCropFilter } from '../utils/reframe';
+import { getTextMotion, renderTextImage } from '../utils/textClips';
+import { applyCaptionPreset } from '../utils/captions';
+import { getTrackTransitions, getLinkedAudioTransitions, getClipHandles, getXfadeName } from '../utils/transitions';
+import { getClipCacheKey, readCachedClip, writeCachedClip } from './renderCache';
 
 let ffmpeg: FFmpeg | null = null;
 
 type ProgressCallback = (progress: number, stage: string) => void;
 
-const CORE_VERSION = '0.12.6';
-const BASE_URL = `https://unpkg.com/@ffmpeg/core@${CORE_VERSION}/dist/esm`;
+// The multithreaded core needs SharedArrayBuffer, which browsers only allow on a
+// cross-origin isolated page (the COOP/COEP headers set in vite.config.ts, and needed from any host)
+const useMultithreadedCore = () => self.crossOriginIsolated === true;
 
 const getExtension = (mimeType?: string): string => {
     const map: Record<string, string> = {
@@ -24,95 +43,367 @@ const getExtension = (mimeType?: string): string => {
     return map[mimeType || ''] || 'bin';
 };
 
-export const loadFFmpeg = async (onProgress?: ProgressCallback): Promise<FFmpeg> => {
-    if (ffmpeg && ffmpeg.loaded) return ffmpeg;
+// Fits any source into the project frame. Non-square pixels are handled by fitting in display
+// space first, then squeezing horizontally and tagging the stream's sample aspect ratio.
+const buildFrameFilter = ({ width, height, pixelAspect }: ProjectSettings): string => {
+    const fit = pixelAspect === 1
+        ? `scale=${width}:${height}:force_original_aspect_ratio=decrease`
+        : `scale=${Math.round(width * pixelAspect)}:${height}:force_original_aspect_ratio=decrease,scale=trunc(iw/${pixelAspect}):ih`;
+    return `${fit},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=${pixelAspect},format=yuv420p`;
+};
+
+// Speech on the key track is assumed to sit around DUCKING_KEY_LEVEL_DB RMS. The threshold is
+// placed so a hard compressor keyed on it pulls the ducked track down by `depth` at that level.
+const DUCKING_KEY_LEVEL_DB = -18;
+const DUCKING_RATIO = 20;
+const buildDuckingFilter = ({ depth, attack, release }: DuckingSettings): string => {
+    const thresholdDb = DUCKING_KEY_LEVEL_DB - depth / (1 - 1 / DUCKING_RATIO);
+    return `sidechaincompress=threshold=${dbToGain(thresholdDb).toFixed(6)}:ratio=${DUCKING_RATIO}:attack=${attack}:release=${release}`;
+};
+
+// Encoder settings for the delivered file. Intermediate clips stay ultrafast H.264;
+// only the last pass is encoded to the preset's codec and bitrate.
+const buildDeliveryVideoArgs = ({ videoCodec, videoBitrate }: ExportPreset): string[] => [
+    ...(videoCodec === 'hevc' ? ['-c:v', 'libx265', '-tag:v', 'hvc1'] : ['-c:v', 'libx264']),
+    '-preset', 'veryfast',
+    '-b:v', `${videoBitrate}k`,
+    '-maxrate', `${videoBitrate}k`,
+    '-bufsize', `${videoBitrate * 2}k`,
+    '-pix_fmt', 'yuv420p',
+    '-movflags', '+faststart'
+];
+
+// Runs a command while collecting its log output, for filters that report results there (loudnorm)
+const execCapturingLog = async (ff: FFmpeg, args: string[]): Promise<string> => {
+    const lines: string[] = [];
+    const listener = ({ message }: { message: string }) => lines.push(message);
+    ff.on('log', listener);
+    try {
+        await ff.exec(args);
+    } finally {
+        ff.off('log', listener);
+    }
+    return lines.join('\n');
+};
 
-    ffmpeg = new FFmpeg();
+const createFFmpeg = async (onProgress?: ProgressCallback): Promise<FFmpeg> => {
+    const instance = new FFmpeg();
+    ffmpeg = instance;
 
-    ffmpeg.on('log', ({ message }) => {
+    instance.on('log', ({ message }) => {
         console.log('[FFmpeg]', message);
     });
 
-    onProgress?.(0.02, 'Downloading FFmpeg WASM core...');
+    const multithreaded = useMultithreadedCore();
+    onProgress?.(0.02, `Loading FFmpeg WASM core (${multithreaded ? 'multithreaded' : 'single-threaded'})...`);
 
-    await ffmpeg.load({
-        coreURL: await toBlobURL(`${BASE_URL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${BASE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
-    });
+    await instance.load(multithreaded
+        ? { coreURL: coreMtURL, wasmURL: wasmMtURL, workerURL: workerMtURL }
+        : { coreURL, wasmURL });
+
+    return instance;
+};
+
+// Callers that arrive while the core is loading share that load rather than starting a second core
+let loading: Promise<FFmpeg> | null = null;
+
+const loadFFmpeg = (onProgress?: ProgressCallback): Promise<FFmpeg> => {
+    if (ffmpeg && ffmpeg.loaded) return Promise.resolve(ffmpeg);
+    if (!loading) loading = createFFmpeg(onProgress).finally(() => { loading = null; });
+    return loading;
+};
 
-    return ffmpeg;
+// Tail of the queue of tasks waiting for the shared instance
+let queue: Promise<unknown> = Promise.resolve();
+
+// Runs `task` once every task queued before it has settled
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task);
+    queue = run.catch(() => { });
+    return run;
+};
+
+/**
+ * Runs `task` with the shared FFmpeg instance to itself. Renders take the
+ * same turn, so a task never has its files cleaned up or its worker
+ * terminated by a render (or the other way round). The task should remove
+ * the files it writes.
+ */
+export const withFFmpeg = <T>(task: (ff: FFmpeg) => Promise<T>): Promise<T> =>
+    runExclusive(async () => task(await loadFFmpeg()));
+
+/**
+ * Kills the worker the core runs in, along with any command in progress, and
+ * forgets the instance. The next render loads a fresh core with an empty
+ * virtual FS and heap.
+ */
+export const terminateFFmpeg = () => {
+    ffmpeg?.terminate();
+    ffmpeg = null;
 };
 
-export const renderTimeline = async (
-    segments: TimelineSegment[],
+export class RenderCancelledError extends Error {
+    constructor() {
+        super('Render cancelled.');
+        this.name = 'RenderCancelledError';
+    }
+}
+
+// What the WASM core reports when its heap is exhausted
+const OUT_OF_MEMORY_PATTERN = /out of memory|memory access out of bounds|cannot enlarge memory|Aborted\(/i;
+
+const isOutOfMemory = (err: unknown): boolean => OUT_OF_MEMORY_PATTERN.test(err instanceof Error ? err.message : String(err));
+
+const checkCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new RenderCancelledError();
+};
+
+// Steps tolerate a failed clip or pass and carry on, but never a cancel or an exhausted heap
+const rethrowIfFatal = (err: unknown, signal?: AbortSignal) => {
+    checkCancelled(signal);
+    if (isOutOfMemory(err)) throw err;
+};
+
+// Deletes every file in the FS root that wasn't there before the render started
+const removeTempFiles = async (ff: FFmpeg, existing: Set<string>) => {
+    try {
+        for (const node of await ff.listDir('/')) {
+            if (!node.isDir && !existing.has(node.name)) {
+                try { await ff.deleteFile(node.name); } catch { }
+            }
+        }
+    } catch (err) {
+        console.warn('[FFmpeg] Could not clean up temp files:', err);
+    }
+};
+
+/**
+ * Renders the timeline to an MP4 blob URL, waiting its turn for the FFmpeg
+ * instance (see withFFmpeg). Aborting `signal` terminates the FFmpeg worker
+ * (a running command can't be interrupted any other way) and rejects with
+ * RenderCancelledError. Files the render wrote are removed however it ends.
+ * If the core runs out of memory the instance is restarted and the render
+ * tried once more.
+ */
+export const renderTimeline = (
+    timelineSegments: TimelineSegment[],
+    tracks: Track[],
     assets: Asset[],
-    onProgress: ProgressCallback
-): Promise<string> => {
-    const ff = await loadFFmpeg(onProgress);
+    settings: ProjectSettings,
+    options: RenderOptions,
+    onProgress: ProgressCallback,
+    signal?: AbortSignal
+): Promise<RenderResult> => runExclusive(async () => {
+    const attempt = async (): Promise<RenderResult> => {
+        checkCancelled(signal);
+        const ff = await loadFFmpeg(onProgress);
+        signal?.addEventListener('abort', terminateFFmpeg);
+        try {
+            checkCancelled(signal);
+            const existingFiles = new Set((await ff.listDir('/')).map(node => node.name));
+            try {
+                return await renderSteps(ff, timelineSegments, tracks, assets, settings, options, existingFiles, onProgress, signal);
+            } finally {
+                // A terminated instance took its FS with it
+                if (ffmpeg === ff) await removeTempFiles(ff, existingFiles);
+            }
+        } catch (err) {
+            checkCancelled(signal);
+            throw err;
+        } finally {
+            signal?.removeEventListener('abort', terminateFFmpeg);
+        }
+    };
+
+    try {
+        return await attempt();
+    } catch (err) {
+        if (!isOutOfMemory(err)) throw err;
+        console.warn('[FFmpeg] Out of memory, restarting the engine:', err);
+        terminateFFmpeg();
+        onProgress(0, 'FFmpeg ran out of memory. Restarting the engine and retrying...');
+        try {
+            return await attempt();
+        } catch (retryErr) {
+            if (!isOutOfMemory(retryErr)) throw retryErr;
+            terminateFFmpeg();
+            throw new Error('FFmpeg ran out of memory. Try a smaller export preset or a shorter range.');
+        }
+    }
+});
+
+const renderSteps = async (
+    ff: FFmpeg,
+    timelineSegments: TimelineSegment[],
+    tracks: Track[],
+    assets: Asset[],
+    settings: ProjectSettings,
+    options: RenderOptions,
+    existingFiles: Set<string>, // FS contents before the render, which cleanup leaves alone
+    onProgress: ProgressCallback,
+    signal?: AbortSignal
+): Promise<RenderResult> => {
+    const segments = options.range
+        ? cropToRange(timelineSegments, options.range.startFrame, options.range.endFrame, settings.fps)
+        : timelineSegments;
+    // Timeline positions are in project frames (settings.fps); everything written out uses the preset's format
+    const output = getOutputFormat(options.preset, settings);
+    const frameFilter = buildFrameFilter(output);
+    const fps = String(output.fps);
+    // Reframed versions crop each main clip to the target aspect before it is fitted into the frame
+    const reframeAspect = options.reframe && isReframeAspect(options.preset.aspect) ? options.preset.aspect : null;
+    const getClipFilter = (seg: TimelineSegment, lead: number) => reframeAspect ? `${buildCropFilter(seg, reframeAspect, lead)},${frameFilter}` : frameFilter;
 
     // Sort video segments by start frame
+    const mainTrackId = getMainTrackId(tracks);
     const videoSegments = segments
-        .filter(s => s.trackId === TrackType.VIDEO_MAIN && s.assetUrl)
+        .filter(s => s.trackId === mainTrackId && s.assetUrl)
         .sort((a, b) => a.startFrame - b.startFrame);
-
+    // A transition overlaps the clips either side of its cut, so those are encoded with handles past their trim points
+    const transitions = getTrackTransitions(videoSegments, mainTrackId);
+
+    // Overlays are composited bottom track first, so higher tracks land on top
+    const overlayTrackIds = getOverlayTrackIds(tracks);
+    const overlaySegments = segments
+        .filter(s => overlayTrackIds.includes(s.trackId) && s.assetUrl)
+        .sort((a, b) => overlayTrackIds.indexOf(a.trackId) - overlayTrackIds.indexOf(b.trackId) || a.startFrame - b.startFrame);
+
+    // Titles draw over everything, later text tracks on top, then any burned-in captions restyled by their preset
+    const textTrackIds = getTextTrackIds(tracks);
+    const { captions } = options;
+    const captionSegments = captions
+        ? segments
+            .filter(s => s.trackId === captions.trackId && s.text)
+            .sort((a, b) => a.startFrame - b.startFrame)
+            .map(s => ({ ...s, text: applyCaptionPreset(s.text!, captions.presetId) }))
+        : [];
+    const textSegments = [
+        ...segments
+            .filter(s => textTrackIds.includes(s.trackId) && s.text)
+            .sort((a, b) => textTrackIds.indexOf(a.trackId) - textTrackIds.indexOf(b.trackId) || a.startFrame - b.startFrame),
+        ...captionSegments
+    ];
+
+    const audioTrackIds = getAudioTrackIds(tracks);
     const audioSegments = segments
-        .filter(s => s.trackId === TrackType.AUDIO && s.assetUrl)
+        .filter(s => audioTrackIds.includes(s.trackId) && s.assetUrl)
         .sort((a, b) => a.startFrame - b.startFrame);
 
+    // Where the export ends, in project frames: the range's end, or the last clip on any track
+    const programmeEndFrame = options.range
+        ? options.range.endFrame - options.range.startFrame
+        : Math.max(...segments.map(s => s.endFrame));
+
     if (videoSegments.length === 0) {
-        throw new Error('No video segments found on the timeline. Add clips to the V1 MAIN track first.');
+        throw new Error('No video segments found on the timeline. Add clips to the main video track first.');
     }
 
     // ========================================
     // STEP 1: Normalize each segment to a clip
     // ========================================
-    const clipNames: string[] = [];
+    // `transition` joins a clip to the one before it in the list; durations include any handles
+    const clips: { name: string; segId?: string; duration: number; transition?: Transition }[] = [];
+    let cursorFrame = 0; // Where the previous clip ended on the timeline
+
+    // Gaps on V1 are filled with black so the export keeps the same timing as the preview
+    const renderGap = async (name: string, seconds: number) => {
+        await ff.exec([
+            '-f', 'lavfi',
+            '-i', `color=c=black:s=${output.width}x${output.height}:r=${output.fps}`,
+            '-t', String(seconds),
+            '-vf', `setsar=${output.pixelAspect}`,
+            '-c:v', 'libx264',
+            '-preset', 'ultrafast',
+            '-pix_fmt', 'yuv420p',
+            name
+        ]);
+        clips.push({ name, duration: seconds });
+    };
 
     for (let i = 0; i < videoSegments.length; i++) {
+        checkCancelled(signal);
         const seg = videoSegments[i];
         const stepProgress = 0.05 + (i / videoSegments.length) * 0.55;
-        onProgress(stepProgress, `Encoding clip ${i + 1}/${videoSegments.length}: "${seg.label}"`);
+
+        const gapSeconds = framesToSeconds(seg.startFrame - cursorFrame, settings.fps);
+        if (gapSeconds >= framesToSeconds(1, settings.fps)) {
+            onProgress(stepProgress, `Filling ${gapSeconds.toFixed(2)}s gap before clip ${i + 1}`);
+            try {
+                await renderGap(`gap_${i}.mp4`, gapSeconds);
+            } catch (err) {
+                rethrowIfFatal(err, signal);
+                console.error(`[FFmpeg] Failed to render gap before clip ${i}:`, err);
+            }
+        }
+        cursorFrame = Math.max(cursorFrame, seg.endFrame);
 
         const asset = assets.find(a => a.id === seg.assetId);
         const ext = getExtension(asset?.mimeType || (seg.assetType === AssetType.IMAGE ? 'image/png' : 'video/mp4'));
         const inputName = `input_${i}.${ext}`;
         const outputName = `clip_${i}.mp4`;
 
+        const handles = getClipHandles(seg, transitions);
+        // Where the source runs out before a handle does, the edge frame is held
+        const heldLead = handles.lead - handles.leadMedia;
+        const heldTail = handles.tail - handles.tailMedia;
+        const hold = heldLead > 0 || heldTail > 0 ? `,tpad=start_mode=clone:start_duration=${heldLead}:stop_mode=clone:stop_duration=${heldTail}` : '';
+
         try {
-            // Fetch media bytes and write to FFmpeg FS
             const fileData = await fetchFile(seg.assetUrl!);
-            await ff.writeFile(inputName, fileData);
 
-            if (seg.assetType === AssetType.IMAGE) {
+            const args = seg.assetType === AssetType.IMAGE
                 // Image → short video clip
-                await ff.exec([
+                ? [
                     '-loop', '1',
                     '-i', inputName,
-                    '-t', String(Math.max(1, seg.duration)),
-                    '-vf', 'scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,format=yuv420p',
-                    '-r', '30',
+                    '-t', String(seg.duration + handles.lead + handles.tail),
+                    '-vf', getClipFilter(seg, handles.lead),
+                    '-r', fps,
                     '-c:v', 'libx264',
                     '-preset', 'ultrafast',
                     '-pix_fmt', 'yuv420p',
                     outputName
-                ]);
-            } else {
-                // Video → re-encode for consistency
-                await ff.exec([
+                ]
+                // Video → re-encode for consistency, reading only the trimmed source range
+                : [
+                    '-ss', String(getSourceIn(seg) - handles.leadMedia),
                     '-i', inputName,
-                    '-t', String(Math.max(1, seg.duration)),
-                    '-vf', 'scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,format=yuv420p',
-                    '-r', '30',
+                    '-t', String(seg.duration + handles.leadMedia + handles.tailMedia),
+                    '-vf', getClipFilter(seg, handles.leadMedia) + hold,
+                    '-r', fps,
                     '-c:v', 'libx264',
                     '-preset', 'ultrafast',
                     '-pix_fmt', 'yuv420p',
                     '-an',
                     outputName
-                ]);
+                ];
+
+            // File names depend on the clip's position, so they stay out of the key
+            const cacheKey = await getClipCacheKey(seg.assetUrl!, fileData, args.map(a => a === inputName ? '<input>' : a === outputName ? '<output>' : a));
+            const cached = await readCachedClip(cacheKey);
+
+            if (cached) {
+                onProgress(stepProgress, `Cache hit (${cached.source}) for clip ${i + 1}/${videoSegments.length}: "${seg.label}"`);
+                await ff.writeFile(outputName, cached.data);
+            } else {
+                onProgress(stepProgress, `Encoding clip ${i + 1}/${videoSegments.length}: "${seg.label}"`);
+                // Write media bytes to FFmpeg FS
+                await ff.writeFile(inputName, fileData);
+                await ff.exec(args);
+                const encoded = await ff.readFile(outputName);
+                if (encoded instanceof Uint8Array) await writeCachedClip(cacheKey, encoded);
             }
 
-            clipNames.push(outputName);
+            // A transition only applies if the clip it blends from made it into the list
+            const incoming = transitions.find(t => t.incoming.id === seg.id);
+            clips.push({
+                name: outputName,
+                segId: seg.id,
+                duration: seg.duration + handles.lead + handles.tail,
+                transition: incoming && clips[clips.length - 1]?.segId === incoming.outgoing.id ? incoming.transition : undefined
+            });
         } catch (err) {
+            rethrowIfFatal(err, signal);
             console.error(`[FFmpeg] Failed to process clip ${i}:`, err);
             // Continue with remaining clips
         }
@@ -121,22 +412,69 @@ export const renderTimeline = async (
         try { await ff.deleteFile(inputName); } catch { }
     }
 
-    if (clipNames.length === 0) {
+    // The picture runs to the end of the programme like the preview does, so audio,
+    // overlays and titles past the last V1 clip aren't cut off by the final mux
+    const tailSeconds = framesToSeconds(programmeEndFrame - cursorFrame, settings.fps);
+    if (clips.length > 0 && tailSeconds >= framesToSeconds(1, settings.fps)) {
+        checkCancelled(signal);
+        onProgress(0.6, `Filling ${tailSeconds.toFixed(2)}s after the last clip`);
+        try {
+            await renderGap('gap_end.mp4', tailSeconds);
+        } catch (err) {
+            rethrowIfFatal(err, signal);
+            console.error('[FFmpeg] Failed to render gap after the last clip:', err);
+        }
+    }
+
+    if (clips.length === 0) {
         throw new Error('All clips failed to encode. Check your media files.');
     }
 
+    checkCancelled(signal);
+
     // ========================================
     // STEP 2: Concatenate all normalized clips
     // ========================================
-    onProgress(0.65, `Concatenating ${clipNames.length} clips...`);
+    const transitionCount = clips.filter(c => c.transition).length;
+    onProgress(0.65, transitionCount > 0
+        ? `Joining ${clips.length} clips with ${transitionCount} transition(s)...`
+        : `Concatenating ${clips.length} clips...`);
 
-    if (clipNames.length === 1) {
+    if (clips.length === 1) {
         // Single clip — just rename
-        const data = await ff.readFile(clipNames[0]);
+        const data = await ff.readFile(clips[0].name);
         await ff.writeFile('video_only.mp4', data);
+    } else if (transitionCount > 0) {
+        // Hard cuts join through the concat filter; transitions overlap their two clips through xfade
+        const filterParts = clips.map((_, i) => `[${i}:v]settb=AVTB,setpts=PTS-STARTPTS[c${i}]`);
+        let label = 'c0';
+        let length = clips[0].duration;
+        for (let i = 1; i < clips.length; i++) {
+            const { transition, duration } = clips[i];
+            if (transition) {
+                const offset = Math.max(0, length - transition.duration);
+                filterParts.push(`[${label}][c${i}]xfade=transition=${getXfadeName(transition.type)}:duration=${transition.duration}:offset=${offset.toFixed(4)}[j${i}]`);
+                length += duration - transition.duration;
+            } else {
+                filterParts.push(`[${label}][c${i}]concat=n=2:v=1:a=0[j${i}]`);
+                length += duration;
+            }
+            label = `j${i}`;
+        }
+
+        await ff.exec([
+            ...clips.flatMap(c => ['-i', c.name]),
+            '-filter_complex', filterParts.join(';'),
+            '-map', `[${label}]`,
+            '-r', fps,
+            '-c:v', 'libx264',
+            '-preset', 'ultrafast',
+            '-pix_fmt', 'yuv420p',
+            'video_only.mp4'
+        ]);
     } else {
         // Create concat list file
-        const concatList = clipNames.map(name => `file '${name}'`).join('\n');
+        const concatList = clips.map(c => `file '${c.name}'`).join('\n');
         await ff.writeFile('concat.txt', concatList);
 
         await ff.exec([
@@ -151,24 +489,141 @@ export const renderTimeline = async (
     }
 
     // Cleanup individual clips
-    for (const name of clipNames) {
+    for (const { name } of clips) {
         try { await ff.deleteFile(name); } catch { }
     }
 
+    checkCancelled(signal);
+
     // ========================================
-    // STEP 3: Mix in audio (if any)
+    // STEP 3: Composite overlay tracks, titles and captions (if any)
     // ========================================
-    let finalOutput = 'video_only.mp4';
+    let videoTrack = 'video_only.mp4';
+
+    if (overlaySegments.length > 0 || textSegments.length > 0) {
+        onProgress(0.7, `Compositing ${overlaySegments.length} overlay(s) and ${textSegments.length} title(s)/caption(s)...`);
+
+        const overlayInputArgs: string[] = ['-i', videoTrack];
+        const filterParts: string[] = [];
+        const overlayNames: string[] = [];
+        let baseLabel = '0:v';
+
+        for (let i = 0; i < overlaySegments.length; i++) {
+            checkCancelled(signal);
+            const seg = overlaySegments[i];
+            const asset = assets.find(a => a.id === seg.assetId);
+            const isImage = (asset?.type || seg.assetType) !== AssetType.VIDEO;
+            const overlayName = `overlay_${i}.${getExtension(asset?.mimeType || (isImage ? 'image/png' : 'video/mp4'))}`;
+
+            try {
+                await ff.writeFile(overlayName, await fetchFile(seg.assetUrl!));
+            } catch (err) {
+                rethrowIfFatal(err, signal);
+                console.warn(`[FFmpeg] Failed to load overlay ${i}:`, err);
+                continue;
+            }
+            overlayNames.push(overlayName);
+
+            if (isImage) {
+                overlayInputArgs.push('-loop', '1', '-framerate', fps, '-t', String(seg.duration), '-i', overlayName);
+            } else {
+                overlayInputArgs.push('-ss', String(getSourceIn(seg)), '-t', String(seg.duration), '-i', overlayName);
+            }
+
+            // Mirror the player: centred on the drop point, no wider than 30% of the frame
+            const start = framesToSeconds(seg.startFrame, settings.fps);
+            const end = start + seg.duration;
+            const x = seg.metadata?.overlayX ?? 0.5;
+            const y = seg.metadata?.overlayY ?? 0.5;
+            const inputIdx = overlayNames.length; // 0 is the base video
+            const outLabel = `v${inputIdx}`;
+
+            filterParts.push(`[${inputIdx}:v]scale='min(iw,${Math.round(output.width * 0.3)})':-2,format=rgba,setpts=PTS-STARTPTS+${start}/TB[ov${inputIdx}]`);
+            filterParts.push(`[${baseLabel}][ov${inputIdx}]overlay=x=${x}*W-w/2:y=${y}*H-h/2:enable='between(t,${start},${end})':eof_action=pass[${outLabel}]`);
+            baseLabel = outLabel;
+        }
+
+        for (let i = 0; i < textSegments.length; i++) {
+            checkCancelled(signal);
+            const seg = textSegments[i];
+            const titleName = `title_${i}.png`;
+
+            try {
+                // Drawn at display size, like the preview; non-square pixels squeeze it with the rest of the picture
+                await ff.writeFile(titleName, await renderTextImage(seg.text!, Math.round(output.width * output.pixelAspect), output.height));
+            } catch (err) {
+                rethrowIfFatal(err, signal);
+                console.warn(`[FFmpeg] Failed to render title ${i}:`, err);
+                continue;
+            }
+            overlayNames.push(titleName);
+            overlayInputArgs.push('-loop', '1', '-framerate', fps, '-t', String(seg.duration), '-i', titleName);
+
+            const start = framesToSeconds(seg.startFrame, settings.fps);
+            const end = start + seg.duration;
+            const inputIdx = overlayNames.length;
+            const outLabel = `v${inputIdx}`;
+
+            // The opacity curve is a linear ramp at each end, which the alpha fades reproduce exactly
+            const { opacity, x, y } = getTextMotion(seg.text!, seg.duration);
+            const squeeze = output.pixelAspect !== 1 ? `,scale=trunc(iw/${output.pixelAspect}):ih` : '';
+            const fadeIn = opacity[0].gain < 1 ? `,fade=t=in:st=0:d=${opacity[1].time}:alpha=1` : '';
+            const fadeOut = opacity[3].gain < 1 ? `,fade=t=out:st=${opacity[2].time}:d=${seg.duration - opacity[2].time}:alpha=1` : '';
+            // Slide offsets are clip-local curves, moved onto the output timeline
+            const offset = (points: GainPoint[]) => buildGainExpression(points.map(p => ({ ...p, time: p.time + start })));
+
+            filterParts.push(`[${inputIdx}:v]format=rgba${squeeze}${fadeIn}${fadeOut},setpts=PTS-STARTPTS+${start}/TB[ov${inputIdx}]`);
+            filterParts.push(`[${baseLabel}][ov${inputIdx}]overlay=x='(${seg.text!.x}+${offset(x)})*W-w/2':y='(${seg.text!.y}+${offset(y)})*H-h/2':enable='between(t,${start},${end})':eof_action=pass[${outLabel}]`);
+            baseLabel = outLabel;
+        }
+
+        if (overlayNames.length > 0) {
+            try {
+                await ff.exec([
+                    ...overlayInputArgs,
+                    '-filter_complex', filterParts.join(';'),
+                    '-map', `[${baseLabel}]`,
+                    '-r', fps,
+                    '-c:v', 'libx264',
+                    '-preset', 'ultrafast',
+                    '-pix_fmt', 'yuv420p',
+                    'video_overlaid.mp4'
+                ]);
+                videoTrack = 'video_overlaid.mp4';
+            } catch (err) {
+                rethrowIfFatal(err, signal);
+                console.warn('[FFmpeg] Overlay compositing failed, exporting without overlays or titles:', err);
+            }
+        }
+
+        for (const name of overlayNames) {
+            try { await ff.deleteFile(name); } catch { }
+        }
+    }
+
+    checkCancelled(signal);
+
+    // ========================================
+    // STEP 4: Mix in audio (if any) and encode for delivery
+    // ========================================
+    let finalOutput = videoTrack;
+    let loudnessReport: LoudnessReport | undefined;
+    const warnings: string[] = [];
 
     if (audioSegments.length > 0) {
-        onProgress(0.75, `Mixing ${audioSegments.length} audio track(s)...`);
+        onProgress(0.75, `Mixing ${audioSegments.length} audio clip(s) across ${audioTrackIds.length} track(s)...`);
 
-        const audioInputArgs: string[] = ['-i', 'video_only.mp4'];
+        const audioInputArgs: string[] = ['-i', videoTrack];
         const filterParts: string[] = [];
-        const mixLabels: string[] = [];
+        const clipLabelsByTrack = new Map<string, string[]>();
         let validAudioCount = 0;
+        // Linked audio crossfades where its picture transitions; clips joined that way are
+        // placed as one run, keyed here by the run's last clip
+        const audioTransitions = getLinkedAudioTransitions(segments, transitions);
+        const runs = new Map<string, { label: string; trackId: string; delayMs: number }>();
 
         for (let i = 0; i < audioSegments.length; i++) {
+            checkCancelled(signal);
             const seg = audioSegments[i];
             if (!seg.assetUrl) continue;
 
@@ -181,52 +636,163 @@ export const renderTimeline = async (
                 await ff.writeFile(audioName, audioData);
                 audioInputArgs.push('-i', audioName);
 
-                const delayMs = Math.round((seg.startFrame / 30) * 1000);
-                const inputIdx = validAudioCount + 1; // 0 is video_only.mp4
-                filterParts.push(`[${inputIdx}:a]adelay=${delayMs}|${delayMs},apad[a${validAudioCount}]`);
-                mixLabels.push(`[a${validAudioCount}]`);
+                const inputIdx = validAudioCount + 1; // 0 is the video track
+                const handles = getClipHandles(seg, audioTransitions);
+                // Cut the trimmed range (and any crossfade handles) out of the source, with silence for handle it can't supply
+                const trim = `atrim=start=${getSourceIn(seg) - handles.leadMedia}:duration=${seg.duration + handles.leadMedia + handles.tailMedia},asetpts=PTS-STARTPTS`;
+                const silentLeadMs = Math.round((handles.lead - handles.leadMedia) * 1000);
+                const pads = (silentLeadMs > 0 ? `,adelay=${silentLeadMs}|${silentLeadMs}` : '')
+                    + (handles.tail > handles.tailMedia ? `,apad=pad_dur=${handles.tail - handles.tailMedia}` : '');
+                // Then shape its level; the curves are clip-local, so they move past the lead handle
+                const shift = (points: GainPoint[]) => points.map(p => ({ ...p, time: p.time + handles.lead }));
+                const gain = `volume='(${buildGainExpression(shift(getEnvelopePoints(seg)))})*(${buildGainExpression(shift(getFadePoints(seg)))})':eval=frame`;
+                filterParts.push(`[${inputIdx}:a]${trim}${pads},${gain}[p${validAudioCount}]`);
+
+                const crossfade = audioTransitions.find(t => t.incoming.id === seg.id);
+                const run = crossfade && runs.get(crossfade.outgoing.id);
+                if (crossfade && run) {
+                    runs.delete(crossfade.outgoing.id);
+                    filterParts.push(`${run.label}[p${validAudioCount}]acrossfade=d=${crossfade.transition.duration}:c1=tri:c2=tri[x${validAudioCount}]`);
+                    runs.set(seg.id, { ...run, label: `[x${validAudioCount}]` });
+                } else {
+                    const start = framesToSeconds(seg.startFrame, settings.fps) - handles.lead;
+                    runs.set(seg.id, { label: `[p${validAudioCount}]`, trackId: seg.trackId, delayMs: Math.max(0, Math.round(start * 1000)) });
+                }
                 validAudioCount++;
             } catch (err) {
+                rethrowIfFatal(err, signal);
                 console.warn(`[FFmpeg] Failed to load audio ${i}:`, err);
             }
         }
 
+        // Shift each run into place, padded with silence to the end of the programme (a bare apad never
+        // ends, and the loudness measurement has no video stream to stop it)
+        const programmeSeconds = framesToSeconds(programmeEndFrame, settings.fps);
+        [...runs.values()].forEach(({ label, trackId, delayMs }, k) => {
+            filterParts.push(`${label}adelay=${delayMs}|${delayMs},apad=whole_dur=${programmeSeconds}[a${k}]`);
+            clipLabelsByTrack.set(trackId, [...(clipLabelsByTrack.get(trackId) || []), `[a${k}]`]);
+        });
+
         if (validAudioCount > 0) {
-            const mixFilter = `${filterParts.join(';')};${mixLabels.join('')}amix=inputs=${validAudioCount}:normalize=0[aout]`;
+            // Sum each track's clips into a bus, so ducking can key one whole track off another
+            const busLabels = new Map<string, string>();
+            clipLabelsByTrack.forEach((labels, trackId) => {
+                const bus = `[bus_${busLabels.size}]`;
+                filterParts.push(labels.length === 1 ? `${labels[0]}anull${bus}` : `${labels.join('')}amix=inputs=${labels.length}:normalize=0${bus}`);
+                busLabels.set(trackId, bus);
+            });
+
+            // Key buses feed both the final mix and one sidechain per track they duck
+            const duckedTracks = tracks.filter(t => t.ducking && busLabels.has(t.id) && busLabels.has(t.ducking.keyTrackId) && t.ducking.keyTrackId !== t.id);
+            // (Labels use indices; track ids are not guaranteed to be valid filtergraph names)
+            const keyUses = new Map<string, string[]>();
+            duckedTracks.forEach((t, i) => {
+                const keyId = t.ducking!.keyTrackId;
+                keyUses.set(keyId, [...(keyUses.get(keyId) || []), `[sc_${i}]`]);
+            });
+            [...keyUses.entries()].forEach(([keyId, sidechains], k) => {
+                const mixLabel = `[keymix_${k}]`;
+                filterParts.push(`${busLabels.get(keyId)}asplit=${sidechains.length + 1}${mixLabel}${sidechains.join('')}`);
+                busLabels.set(keyId, mixLabel);
+            });
+            duckedTracks.forEach((t, i) => {
+                const ducked = `[ducked_${i}]`;
+                filterParts.push(`${busLabels.get(t.id)}[sc_${i}]${buildDuckingFilter(t.ducking!)}${ducked}`);
+                busLabels.set(t.id, ducked);
+            });
+
+            const buses = [...busLabels.values()];
+            const mixFilter = `${filterParts.join(';')};${buses.join('')}amix=inputs=${buses.length}:normalize=0[aout]`;
+            let outputFilter = mixFilter;
+            let outputLabel = '[aout]';
+
+            // Loudness pass 1: measure the finished mix without writing anything
+            const target = options.loudness;
+            let before = NaN;
+            if (target) {
+                onProgress(0.8, `Measuring loudness for ${target.integrated} LUFS target...`);
+                try {
+                    const log = await execCapturingLog(ff, [
+                        ...audioInputArgs,
+                        '-filter_complex', `${mixFilter};[aout]${buildLoudnormFilter(target)}[ameasure]`,
+                        '-map', '[ameasure]',
+                        '-f', 'null', '-'
+                    ]);
+                    const measured = parseLoudnormStats(log);
+                    before = measured ? parseFloat(measured.input_i) : NaN;
+                    // A silent mix measures -inf and has nothing to normalise
+                    if (measured && Number.isFinite(before)) {
+                        // loudnorm works at 192 kHz internally, so bring it back down for AAC
+                        outputFilter = `${mixFilter};[aout]${buildLoudnormFilter(target, measured)},aresample=48000[anorm]`;
+                        outputLabel = '[anorm]';
+                        onProgress(0.85, `Measured ${formatLufs(before)}, normalizing to ${target.integrated} LUFS...`);
+                    } else {
+                        onProgress(0.85, 'No measurable loudness, skipping normalization');
+                    }
+                } catch (err) {
+                    rethrowIfFatal(err, signal);
+                    console.warn('[FFmpeg] Loudness measurement failed, exporting mix as is:', err);
+                }
+            }
 
             try {
-                await ff.exec([
+                const log = await execCapturingLog(ff, [
                     ...audioInputArgs,
-                    '-filter_complex', mixFilter,
+                    '-filter_complex', outputFilter,
                     '-map', '0:v',
-                    '-map', '[aout]',
-                    '-c:v', 'copy',
+                    '-map', outputLabel,
+                    ...buildDeliveryVideoArgs(options.preset),
                     '-c:a', 'aac',
-                    '-b:a', '128k',
+                    '-b:a', `${options.preset.audioBitrate}k`,
                     '-shortest',
                     'final_output.mp4'
                 ]);
                 finalOutput = 'final_output.mp4';
+
+                // Loudness pass 2 reports what it actually produced
+                const normalized = target && outputLabel === '[anorm]' ? parseLoudnormStats(log) : null;
+                if (target && normalized) {
+                    loudnessReport = {
+                        target,
+                        before,
+                        after: parseFloat(normalized.output_i),
+                        truePeakAfter: parseFloat(normalized.output_tp)
+                    };
+                    onProgress(0.9, `Loudness ${formatLufs(loudnessReport.before)} -> ${formatLufs(loudnessReport.after)}`);
+                }
             } catch (err) {
+                rethrowIfFatal(err, signal);
                 console.warn('[FFmpeg] Audio mixing failed, exporting video only:', err);
+                warnings.push('Audio mixing failed, so this export has no sound.');
+                onProgress(0.88, 'WARNING: Audio mixing failed, exporting video only');
             }
         }
 
-        // Cleanup audio files
-        for (let i = 0; i < audioSegments.length; i++) {
-            try { await ff.deleteFile(`audio_${i}.wav`); } catch { }
-        }
+        // Drop the audio inputs and loudness passes; only the picture and the mix go on
+        await removeTempFiles(ff, new Set([...existingFiles, videoTrack, finalOutput]));
     }
 
+    // Without a mix the picture still needs its delivery encode
+    if (finalOutput === videoTrack) {
+        onProgress(0.88, `Encoding ${VIDEO_CODEC_LABELS[options.preset.videoCodec]} at ${options.preset.videoBitrate} kbps...`);
+        await ff.exec([
+            '-i', videoTrack,
+            ...buildDeliveryVideoArgs(options.preset),
+            'final_output.mp4'
+        ]);
+        finalOutput = 'final_output.mp4';
+    }
+
+    checkCancelled(signal);
+
     // ========================================
-    // STEP 4: Read output and create download URL
+    // STEP 5: Read output and create download URL
     // ========================================
     onProgress(0.92, 'Packaging final MP4...');
     const outputData = await ff.readFile(finalOutput);
 
-    // Cleanup
-    try { await ff.deleteFile('video_only.mp4'); } catch { }
-    try { await ff.deleteFile('final_output.mp4'); } catch { }
+    // Nothing in the FS is needed once the output has been read
+    await removeTempFiles(ff, existingFiles);
 
     const rawData = outputData instanceof Uint8Array ? new Uint8Array(outputData) : new TextEncoder().encode(outputData as string);
     const blob = new Blob(
@@ -236,5 +802,5 @@ export const renderTimeline = async (
     const url = URL.createObjectURL(blob);
 
     onProgress(1.0, 'Export complete!');
-    return url;
+    return { url, loudness: loudnessReport, warnings: warnings.length > 0 ? warnings : undefined };
 };
@@ -1,6 +1,6 @@
 
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { GeneratorModel, Asset, AssetType } from '../types';
+import { GeneratorModel, Asset, AssetType, TranscriptSegment, StoryboardStructure } from '../types';
 
 let dynamicApiKey: string | null = null;
 
@@ -66,7 +66,7 @@ export const refinePromptWithMultimodalContext = async (userPrompt: string, asse
 };
 
 // --- Director Mode: Storyboard Generation ---
-export const generateStoryboardStructure = async (userPrompt: string, contextAssets: Asset[] = []) => {
+export const generateStoryboardStructure = async (userPrompt: string, contextAssets: Asset[] = []): Promise<StoryboardStructure> => {
     const ai = getClient();
 
     const parts: any[] = [];
@@ -321,16 +321,93 @@ export const checkContinuity = async (base64FrameA: string, base64FrameB: string
     return response.text;
 };
 
-export const transcribeAudio = async (base64Audio: string, mimeType: string) => {
+// Speech as caption-sized segments with word timings, in seconds from the start of the media
+export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<TranscriptSegment[]> => {
     const ai = getClient();
+    const timedText = {
+        text: { type: Type.STRING },
+        start: { type: Type.NUMBER },
+        end: { type: Type.NUMBER }
+    };
     const response = await ai.models.generateContent({
         model: GeneratorModel.GEMINI_3_FLASH,
         contents: {
             parts: [
                 { inlineData: { data: base64Audio, mimeType: mimeType } },
-                { text: "Transcribe this audio precisely." }
+                {
+                    text: "Transcribe the speech in this media precisely. Split it into short segments that read well as on-screen captions (a phrase or short sentence each). For every segment and every word in it, give start and end times in seconds from the beginning of the file."
+                }
             ]
+        },
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        ...timedText,
+                        words: {
+                            type: Type.ARRAY,
+                            items: { type: Type.OBJECT, properties: timedText, required: ['text', 'start', 'end'] }
+                        }
+                    },
+                    required: ['text', 'start', 'end']
+                }
+            }
         }
     });
-    return response.text;
+
+    try {
+        const segments = JSON.parse(response.text || "[]") as TranscriptSegment[];
+        return segments
+            .filter(s => s.text.trim() && s.end > s.start)
+            .sort((a, b) => a.start - b.start);
+    } catch (e) {
+        console.error("Failed to parse transcript", e);
+        throw new Error("Transcription returned an unreadable response.");
+    }
 }
+
+// --- Reframing ---
+
+// Returns the main subject's centre (0-1) in each frame, in order, for cropping to another aspect ratio
+export const analyzeSubjectCenters = async (base64Frames: string[]): Promise<{ x: number, y: number }[]> => {
+    const ai = getClient();
+    const response = await ai.models.generateContent({
+        model: GeneratorModel.GEMINI_3_FLASH,
+        contents: {
+            parts: [
+                ...base64Frames.map(data => ({ inlineData: { data, mimeType: 'image/jpeg' } })),
+                {
+                    text: `These are ${base64Frames.length} frames from one shot, in order. For each frame, find the point a cropped vertical or square version should stay centred on: the main subject's face or, failing that, the focus of the action. Return one {x, y} per frame, normalised 0-1 from the top-left corner.`
+                }
+            ]
+        },
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        x: { type: Type.NUMBER },
+                        y: { type: Type.NUMBER }
+                    },
+                    required: ['x', 'y']
+                }
+            }
+        }
+    });
+
+    try {
+        const centers = JSON.parse(response.text || "[]") as { x: number, y: number }[];
+        return base64Frames.map((_, i) => {
+            const c = centers[i] || centers[centers.length - 1] || { x: 0.5, y: 0.5 };
+            return { x: Math.min(Math.max(c.x, 0), 1), y: Math.min(Math.max(c.y, 0), 1) };
+        });
+    } catch (e) {
+        console.error("Failed to parse subject centres", e);
+        throw new Error("Reframe analysis returned an unreadable response.");
+    }
+};
@@ -0,0 +1,187 @@
+import { Asset, TranscriptSegment, StoryboardStructure, ProviderId, ProviderCapability, ProviderSelection } from '../types';
+import * as gemini from './geminiService';
+import * as mock from './mockService';
+import { generateVideoPollinations, generateImagePollinations } from './pollinationsService';
+
+type VideoAspect = '16:9' | '9:16';
+type ChatHistory = { role: string, parts: string[] }[];
+
+/**
+ * What a provider offers for each capability it supports; capabilities it
+ * leaves out can't be selected for it. Media comes back as a URL the editor
+ * can load directly (data: for images and speech, blob: or remote for video).
+ */
+export interface GenerationProvider {
+    id: ProviderId;
+    label: string;
+    image?: {
+        generateImage: (prompt: string, referenceAsset?: { mimeType: string, base64: string }) => Promise<string>;
+    };
+    edit?: {
+        editImage: (base64Image: string, mimeType: string, prompt: string) => Promise<string>;
+    };
+    video?: {
+        generateVideo: (prompt: string, aspectRatio: VideoAspect, images?: { mimeType: string; data: string }[]) => Promise<string>;
+    };
+    tts?: {
+        generateSpeech: (text: string) => Promise<string | null>;
+    };
+    transcribe?: {
+        transcribeAudio: (base64Audio: string, mimeType: string) => Promise<TranscriptSegment[]>;
+    };
+    analyze?: {
+        analyzeVideo: (base64Video: string, mimeType: string, prompt: string) => Promise<string | undefined>;
+        analyzeSubjectCenters: (base64Frames: string[]) => Promise<{ x: number, y: number }[]>;
+    };
+    chat?: {
+        sendMessageToAssistant: (history: ChatHistory, message: string) => Promise<string | undefined>;
+        enhancePrompt: (input: string) => Promise<string>;
+        refinePromptWithMultimodalContext: (userPrompt: string, assets: Asset[]) => Promise<string>;
+        generateStoryboardStructure: (userPrompt: string, contextAssets?: Asset[]) => Promise<StoryboardStructure>;
+    };
+}
+
+export const PROVIDERS: GenerationProvider[] = [
+    {
+        id: 'gemini',
+        label: 'Gemini',
+        image: { generateImage: gemini.generateImage },
+        edit: { editImage: gemini.editImage },
+        video: { generateVideo: gemini.generateVideo },
+        tts: { generateSpeech: gemini.generateSpeech },
+        transcribe: { transcribeAudio: gemini.transcribeAudio },
+        analyze: { analyzeVideo: gemini.analyzeVideo, analyzeSubjectCenters: gemini.analyzeSubjectCenters },
+        chat: {
+            sendMessageToAssistant: gemini.sendMessageToAssistant,
+            enhancePrompt: gemini.enhancePrompt,
+            refinePromptWithMultimodalContext: gemini.refinePromptWithMultimodalContext,
+            generateStoryboardStructure: gemini.generateStoryboardStructure
+        }
+    },
+    {
+        id: 'pollinations',
+        label: 'Pollinations',
+        image: {
+            // No reference input; the image follows the prompt alone
+            generateImage: prompt => generateImagePollinations(prompt)
+        },
+        video: {
+            // Pollinations only takes a start image by public URL, so local frames are not passed on
+            generateVideo: (prompt, aspectRatio) => generateVideoPollinations(prompt, aspectRatio)
+        }
+    },
+    {
+        id: 'mock',
+        label: 'Offline Mock',
+        image: { generateImage: mock.generateImage },
+        edit: { editImage: mock.editImage },
+        video: { generateVideo: mock.generateVideo },
+        tts: { generateSpeech: mock.generateSpeech },
+        transcribe: { transcribeAudio: mock.transcribeAudio },
+        analyze: { analyzeVideo: mock.analyzeVideo, analyzeSubjectCenters: mock.analyzeSubjectCenters },
+        chat: {
+            sendMessageToAssistant: mock.sendMessageToAssistant,
+            enhancePrompt: mock.enhancePrompt,
+            refinePromptWithMultimodalContext: mock.refinePromptWithMultimodalContext,
+            generateStoryboardStructure: mock.generateStoryboardStructure
+        }
+    }
+];
+
+export const PROVIDER_CAPABILITIES: { capability: ProviderCapability; label: string }[] = [
+    { capability: 'image', label: 'Image' },
+    { capability: 'edit', label: 'Image Edit' },
+    { capability: 'video', label: 'Video' },
+    { capability: 'tts', label: 'Speech' },
+    { capability: 'transcribe', label: 'Transcription' },
+    { capability: 'analyze', label: 'Analysis' },
+    { capability: 'chat', label: 'Chat & Prompts' }
+];
+
+export const DEFAULT_PROVIDER_SELECTION: ProviderSelection = {
+    image: 'gemini', edit: 'gemini', video: 'gemini', tts: 'gemini', transcribe: 'gemini', analyze: 'gemini', chat: 'gemini'
+};
+
+// Everything local, for working without a key or a network
+export const OFFLINE_PROVIDER_SELECTION: ProviderSelection = {
+    image: 'mock', edit: 'mock', video: 'mock', tts: 'mock', transcribe: 'mock', analyze: 'mock', chat: 'mock'
+};
+
+// The choice belongs to this browser rather than to a project, so it is kept beside the session, not in it
+const SELECTION_STORAGE_KEY = 'segmenta.providers';
+
+// Capabilities missing from the stored choice, or stored with a provider that can't serve them, fall back to the default
+const loadStoredSelection = (): ProviderSelection => {
+    try {
+        const stored: Partial<Record<ProviderCapability, ProviderId>> = JSON.parse(localStorage.getItem(SELECTION_STORAGE_KEY) || '{}');
+        return PROVIDER_CAPABILITIES.reduce((result, { capability }) => {
+            const id = stored[capability];
+            return PROVIDERS.some(p => p.id === id && p[capability]) ? { ...result, [capability]: id } : result;
+        }, DEFAULT_PROVIDER_SELECTION);
+    } catch {
+        return DEFAULT_PROVIDER_SELECTION;
+    }
+};
+
+let selection: ProviderSelection = loadStoredSelection();
+
+export const getProviderSelection = (): ProviderSelection => selection;
+
+export const setProviderSelection = (next: ProviderSelection) => {
+    selection = next;
+    try {
+        localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(next));
+    } catch (e) {
+        console.warn('[Providers] Could not save the provider selection:', e);
+    }
+};
+
+// Whether any capability still goes to Gemini, i.e. whether the studio needs an API key
+export const needsGeminiKey = (): boolean => Object.values(selection).includes('gemini');
+
+export const getProvidersFor = (capability: ProviderCapability): GenerationProvider[] =>
+    PROVIDERS.filter(p => p[capability]);
+
+const getProvider = (capability: ProviderCapability): GenerationProvider =>
+    PROVIDERS.find(p => p.id === selection[capability]) || PROVIDERS[0];
+
+// For loading messages, e.g. "Generating Video with Gemini..."
+export const getProviderLabel = (capability: ProviderCapability): string => getProvider(capability).label;
+
+const use = <C extends ProviderCapability>(capability: C): NonNullable<GenerationProvider[C]> => {
+    const provider = getProvider(capability);
+    const implementation = provider[capability];
+    if (!implementation) {
+        const label = PROVIDER_CAPABILITIES.find(c => c.capability === capability)?.label || capability;
+        throw new Error(`${provider.label} does not support ${label}. Choose another provider in Project Settings.`);
+    }
+    return implementation;
+};
+
+// --- Capability entry points (the editor calls these, never a provider directly) ---
+export const generateImage = (prompt: string, referenceAsset?: { mimeType: string, base64: string }) =>
+    use('image').generateImage(prompt, referenceAsset);
+
+export const editImage = (base64Image: string, mimeType: string, prompt: string) =>
+    use('edit').editImage(base64Image, mimeType, prompt);
+
+export const generateVideo = (prompt: string, aspectRatio: VideoAspect = '16:9', images?: { mimeType: string; data: string }[]) =>
+    use('video').generateVideo(prompt, aspectRatio, images);
+
+export const generateSpeech = (text: string) => use('tts').generateSpeech(text);
+
+export const transcribeAudio = (base64Audio: string, mimeType: string) => use('transcribe').transcribeAudio(base64Audio, mimeType);
+
+export const analyzeVideo = (base64Video: string, mimeType: string, prompt: string) => use('analyze').analyzeVideo(base64Video, mimeType, prompt);
+
+export const analyzeSubjectCenters = (base64Frames: string[]) => use('analyze').analyzeSubjectCenters(base64Frames);
+
+export const sendMessageToAssistant = (history: ChatHistory, message: string) => use('chat').sendMessageToAssistant(history, message);
+
+export const enhancePrompt = (input: string) => use('chat').enhancePrompt(input);
+
+export const refinePromptWithMultimodalContext = (userPrompt: string, assets: Asset[]) =>
+    use('chat').refinePromptWithMultimodalContext(userPrompt, assets);
+
+export const generateStoryboardStructure = (userPrompt: string, contextAssets: Asset[] = []) =>
+    use('chat').generateStoryboardStructure(userPrompt, contextAssets);
@@ -0,0 +1,261 @@
+import { Asset, TranscriptSegment, StoryboardStructure } from '../types';
+import { blobToBase64, base64ToBlob, getMediaDuration } from '../utils/helpers';
+import { withFFmpeg } from './ffmpegService';
+
+// Offline stand-ins for every generation capability. Nothing leaves the browser:
+// media is drawn, synthesized or encoded locally, and the same input always
+// gives the same placeholder, so flows can be developed and tested without a key.
+
+const MOCK_VIDEO_SECONDS = 5; // What Director mode expects a generated scene to last
+const SAMPLE_RATE = 24000;
+
+// FNV-1a, so colours and choices follow the prompt
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load the image.'));
+        img.src = src;
+    });
+
+// Greedy word wrap for the caption drawn on placeholders
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    text.split(/\s+/).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && ctx.measureText(candidate).width > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    });
+    return [...lines, line].slice(0, 4);
+};
+
+/**
+ * A frame of the given size: a gradient in colours picked from the prompt
+ * (over `background`, faded, when there is one), with the prompt written
+ * across the middle and a MOCK badge in the corner.
+ */
+const drawPlaceholder = (width: number, height: number, prompt: string, background?: HTMLImageElement): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const hue = hashString(prompt) % 360;
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 38%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 50) % 360}, 60%, 16%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    if (background) {
+        // Cover the frame, like object-fit: cover
+        const scale = Math.max(width / background.naturalWidth, height / background.naturalHeight);
+        const w = background.naturalWidth * scale;
+        const h = background.naturalHeight * scale;
+        ctx.globalAlpha = 0.55;
+        ctx.drawImage(background, (width - w) / 2, (height - h) / 2, w, h);
+        ctx.globalAlpha = 1;
+    }
+
+    const unit = Math.min(width, height);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(unit * 0.05)}px Arial, sans-serif`;
+    const lineHeight = unit * 0.065;
+    const lines = wrapText(ctx, prompt || 'Untitled', width * 0.8);
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, height / 2 + (i - (lines.length - 1) / 2) * lineHeight));
+
+    ctx.font = `bold ${Math.round(unit * 0.03)}px "Courier New", monospace`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(unit * 0.03, unit * 0.03, unit * 0.14, unit * 0.055);
+    ctx.fillStyle = '#FACC15';
+    ctx.fillText('MOCK', unit * 0.045, unit * 0.043);
+    return canvas;
+};
+
+const canvasToBytes = async (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not draw the placeholder frame.');
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+// --- Chat & Orchestration ---
+export const sendMessageToAssistant = async (history: { role: string, parts: string[] }[], message: string): Promise<string> =>
+    `[Mock assistant] Offline reply to "${message}" (${history.length} earlier message${history.length === 1 ? '' : 's'}). Switch Chat to Gemini in Settings for real answers.`;
+
+export const refinePromptWithMultimodalContext = async (userPrompt: string, assets: Asset[]): Promise<string> =>
+    assets.length > 0 ? `${userPrompt}, in the style of ${assets.length} reference${assets.length === 1 ? '' : 's'}` : userPrompt;
+
+const SUGGESTIONS = ['cinematic golden hour light', 'soft studio lighting', 'slow dolly push in', 'vibrant neon palette', 'shallow depth of field'];
+
+export const enhancePrompt = async (input: string): Promise<string> =>
+    input.length < 5 ? '' : SUGGESTIONS[hashString(input) % SUGGESTIONS.length];
+
+// Same shape as the Gemini Director Engine's storyboard
+export const generateStoryboardStructure = async (userPrompt: string, contextAssets: Asset[] = []): Promise<StoryboardStructure> => {
+    const moves = ['Zoom In', 'Pan Right', 'Tracking Shot', 'Pull Back'];
+    const beats = ['Hook', 'Problem', 'Solution', 'Call to Action'];
+    return {
+        character_prompt: `The hero of "${userPrompt}", photographed consistently${contextAssets.length > 0 ? ' like the references' : ''}`,
+        segments: beats.map((beat, i) => ({
+            id: i + 1,
+            action: `${beat}: ${userPrompt}`,
+            frame_a_prompt: `${beat} opening frame of ${userPrompt}. Consistent with character reference`,
+            frame_b_prompt: `${beat} closing frame of ${userPrompt}. Consistent with character reference`,
+            camera_movement: moves[i],
+            voiceover_script: `${beat}. ${userPrompt}.`
+        }))
+    };
+};
+
+// --- Image Generation & Editing ---
+export const generateImage = async (prompt: string, referenceAsset?: { mimeType: string, base64: string }): Promise<string> => {
+    const reference = referenceAsset ? await loadImage(`data:${referenceAsset.mimeType};base64,${referenceAsset.base64}`) : undefined;
+    return drawPlaceholder(1280, 720, prompt, reference).toDataURL('image/png');
+};
+
+// The source at its own size, tinted and captioned with the edit
+export const editImage = async (base64Image: string, mimeType: string, prompt: string): Promise<string> => {
+    const source = await loadImage(`data:${mimeType};base64,${base64Image}`);
+    const canvas = document.createElement('canvas');
+    canvas.width = source.naturalWidth;
+    canvas.height = source.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(source, 0, 0);
+
+    ctx.fillStyle = `hsla(${hashString(prompt) % 360}, 70%, 50%, 0.25)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const size = Math.max(12, Math.round(Math.min(canvas.width, canvas.height) * 0.04));
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, canvas.height - size * 2, canvas.width, size * 2);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = `bold ${size}px Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`[Mock edit] ${prompt}`, canvas.width / 2, canvas.height - size, canvas.width * 0.95);
+    return canvas.toDataURL('image/png');
+};
+
+// --- Audio Generation (TTS) ---
+// A soft tone per word, pitched by the word, so clips are as long as the line would take to say
+export const generateSpeech = async (text: string): Promise<string | null> => {
+    if (!text) return null;
+    const words = text.split(/\s+/).filter(Boolean);
+    const wordSamples = Math.round(SAMPLE_RATE * 0.28);
+    const gapSamples = Math.round(SAMPLE_RATE * 0.08);
+    const samples = new Int16Array(words.length * (wordSamples + gapSamples));
+
+    words.forEach((word, w) => {
+        const frequency = 160 + (hashString(word) % 140);
+        const offset = w * (wordSamples + gapSamples);
+        for (let i = 0; i < wordSamples; i++) {
+            const envelope = Math.sin(Math.PI * i / wordSamples); // Rises and falls, so words don't click
+            samples[offset + i] = Math.round(Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 0.25 * 32767);
+        }
+    });
+
+    // 16-bit mono PCM WAV
+    const header = new DataView(new ArrayBuffer(44));
+    const writeString = (offset: number, value: string) => [...value].forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+    writeString(0, 'RIFF');
+    header.setUint32(4, 36 + samples.byteLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true);
+    header.setUint16(22, 1, true);
+    header.setUint32(24, SAMPLE_RATE, true);
+    header.setUint32(28, SAMPLE_RATE * 2, true);
+    header.setUint16(32, 2, true);
+    header.setUint16(34, 16, true);
+    writeString(36, 'data');
+    header.setUint32(40, samples.byteLength, true);
+
+    const wav = new Blob([header.buffer, samples.buffer], { type: 'audio/wav' });
+    return `data:audio/wav;base64,${await blobToBase64(wav)}`;
+};
+
+// --- Video Generation ---
+/**
+ * A slow pan across a placeholder frame (drawn over the first image, when
+ * given), encoded to MP4 with the local FFmpeg core.
+ */
+export const generateVideo = async (
+    prompt: string,
+    aspectRatio: '16:9' | '9:16' = '16:9',
+    images?: { mimeType: string; data: string }[]
+): Promise<string> => {
+    const [width, height] = aspectRatio === '16:9' ? [1280, 720] : [720, 1280];
+    const background = images?.[0] ? await loadImage(`data:${images[0].mimeType};base64,${images[0].data}`) : undefined;
+    const frame = await canvasToBytes(drawPlaceholder(Math.round(width * 1.2), Math.round(height * 1.2), prompt, background));
+
+    // Shares the core with exports, so it waits for any render in progress
+    return withFFmpeg(async ff => {
+        const id = crypto.randomUUID().slice(0, 8);
+        const inputName = `mock_${id}.png`;
+        const outputName = `mock_${id}.mp4`;
+        try {
+            await ff.writeFile(inputName, frame);
+            await ff.exec([
+                '-loop', '1', '-framerate', '30', '-t', String(MOCK_VIDEO_SECONDS), '-i', inputName,
+                '-vf', `crop=${width}:${height}:x='(iw-ow)*t/${MOCK_VIDEO_SECONDS}':y='(ih-oh)/2'`,
+                '-c:v', 'libx264', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p',
+                outputName
+            ]);
+            const data = await ff.readFile(outputName);
+            if (!(data instanceof Uint8Array)) throw new Error('Mock video encoding failed.');
+            return URL.createObjectURL(new Blob([new Uint8Array(data)], { type: 'video/mp4' }));
+        } finally {
+            try { await ff.deleteFile(inputName); } catch { }
+            try { await ff.deleteFile(outputName); } catch { }
+        }
+    });
+};
+
+// --- Analysis ---
+export const analyzeVideo = async (base64Video: string, mimeType: string, prompt: string): Promise<string> =>
+    `[Mock analysis] ${mimeType}, ${Math.round(base64Video.length * 0.75 / 1024)} KB.\nQuestion: "${prompt}"\nNo model was called; switch Analyze to Gemini in Settings for a real answer.`;
+
+// Subjects stay centred, which leaves reframed crops where a manual edit would start
+export const analyzeSubjectCenters = async (base64Frames: string[]): Promise<{ x: number, y: number }[]> =>
+    base64Frames.map(() => ({ x: 0.5, y: 0.5 }));
+
+// --- Transcription ---
+// Numbered placeholder captions every few seconds across the media, with evenly spaced word timings
+export const transcribeAudio = async (base64Audio: string, mimeType: string): Promise<TranscriptSegment[]> => {
+    const url = URL.createObjectURL(base64ToBlob(base64Audio, mimeType));
+    const duration = (await getMediaDuration(url, mimeType.startsWith('video') ? 'video' : 'audio')) || 10;
+    URL.revokeObjectURL(url);
+
+    const segmentSeconds = 3;
+    return Array.from({ length: Math.ceil(duration / segmentSeconds) }, (_, i) => {
+        const start = i * segmentSeconds;
+        const end = Math.min(duration, start + segmentSeconds - 0.2);
+        const words = ['Mock', 'caption', String(i + 1)];
+        const step = (end - start) / words.length;
+        return {
+            text: words.join(' '),
+            start,
+            end,
+            words: words.map((text, w) => ({ text, start: start + w * step, end: start + (w + 1) * step }))
+        };
+    }).filter(s => s.end > s.start);
+};
@@ -78,3 +78,24 @@ export const generateVideoPollinations = async (prompt: string, aspectRatio: '16
         return "https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/ForBiggerJoyrides.mp4";
     }
 };
+
+// Pollinations' image endpoint renders a prompt at the requested size. It answers with a JPEG, which is
+// redrawn as a PNG since the editor files generated images as PNGs (and the export names inputs by type)
+export const generateImagePollinations = async (prompt: string, width = 1280, height = 720, seed?: number): Promise<string> => {
+    const params = new URLSearchParams({
+        width: width.toString(),
+        height: height.toString(),
+        seed: (seed !== undefined ? seed : Math.floor(Math.random() * 10000)).toString(),
+        nologo: 'true'
+    });
+    const response = await fetch(`https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?${params.toString()}`);
+    if (!response.ok) throw new Error(`Pollinations image generation failed (${response.status}).`);
+
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvas.toDataURL('image/png');
+};
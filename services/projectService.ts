@@ -0,0 +1,173 @@
+import { Asset, ProjectData, StoryboardSegment } from '../types';
+import { blobToBase64, base64ToBlob } from '../utils/helpers';
+import { DEFAULT_PROJECT_SETTINGS } from '../utils/projectSettings';
+import { DEFAULT_TRACKS } from '../utils/tracks';
+
+export const PROJECT_SCHEMA_VERSION = 4;
+export const PROJECT_FILE_EXTENSION = '.segmenta';
+
+const PROJECT_FORMAT = 'segmenta-project';
+
+interface EmbeddedMedia {
+    mimeType: string;
+    data: string; // base64
+}
+
+interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    schemaVersion: number;
+    savedAt: string;
+    project: ProjectData;
+    media: Record<string, EmbeddedMedia>;
+}
+
+// Each entry upgrades project data from version N to N + 1.
+// Add a step here whenever ProjectData changes shape. Steps only fill in what is
+// missing, so autosaves from before snapshots carried a version can take the whole chain.
+const MIGRATIONS: Record<number, (project: ProjectData) => ProjectData> = {
+    // v2: timeline markers
+    1: project => ({ ...project, markers: project.markers ?? [] }),
+    // v3: project frame rate / resolution (everything before was 30fps 720p)
+    2: project => ({ ...project, settings: project.settings ?? DEFAULT_PROJECT_SETTINGS }),
+    // v4: editable tracks (segments already reference the default track ids)
+    3: project => ({ ...project, tracks: project.tracks ?? DEFAULT_TRACKS })
+};
+
+const isRemoteUrl = (url: string) => /^https?:\/\//.test(url);
+
+// Every asset the project references, including ones only held by the storyboard
+export const collectProjectAssets = (data: ProjectData): Asset[] => {
+    const byId = new Map<string, Asset>();
+    const add = (asset?: Asset | null) => {
+        if (asset && !byId.has(asset.id)) byId.set(asset.id, asset);
+    };
+
+    data.assets.forEach(add);
+    add(data.characterAnchor);
+    data.storyboardSegments.forEach(seg => {
+        add(seg.imgA);
+        add(seg.imgB);
+        add(seg.audio);
+    });
+    return Array.from(byId.values());
+};
+
+const readAssetMedia = async (asset: Asset): Promise<EmbeddedMedia | null> => {
+    if (asset.base64) {
+        return { mimeType: asset.mimeType, data: asset.base64 };
+    }
+    try {
+        const response = await fetch(asset.url);
+        if (!response.ok) throw new Error(`${response.status}`);
+        const blob = await response.blob();
+        return { mimeType: asset.mimeType || blob.type, data: await blobToBase64(blob) };
+    } catch (e) {
+        // Remote media (e.g. sample clips) may refuse CORS; keep it as a URL reference
+        console.warn(`[Project] Could not embed media for "${asset.name}"`, e);
+        return null;
+    }
+};
+
+const mapStoryboardAssets = (segments: StoryboardSegment[], fn: (asset: Asset) => Asset): StoryboardSegment[] =>
+    segments.map(seg => ({
+        ...seg,
+        imgA: seg.imgA && fn(seg.imgA),
+        imgB: seg.imgB && fn(seg.imgB),
+        audio: seg.audio && fn(seg.audio)
+    }));
+
+// Drop session-bound URLs and base64 caches for media stored alongside the project.
+// Remote URLs survive a reload, so they are kept as plain references.
+export const stripProjectMedia = (data: ProjectData, storedIds: Set<string>): ProjectData => {
+    const strip = (asset: Asset): Asset => ({
+        ...asset,
+        url: storedIds.has(asset.id) && !isRemoteUrl(asset.url) ? '' : asset.url,
+        base64: undefined
+    });
+
+    return {
+        ...data,
+        assets: data.assets.map(strip),
+        segments: data.segments.map(s => storedIds.has(s.assetId) ? { ...s, assetUrl: undefined } : s),
+        storyboardSegments: mapStoryboardAssets(data.storyboardSegments, strip),
+        characterAnchor: data.characterAnchor && strip(data.characterAnchor)
+    };
+};
+
+// Inverse of stripProjectMedia: point assets and segments at freshly created media URLs
+export const hydrateProjectMedia = (
+    project: ProjectData,
+    media: Record<string, { url: string; base64?: string }>
+): ProjectData => {
+    const hydrate = (asset: Asset): Asset => media[asset.id]
+        ? { ...asset, url: media[asset.id].url, base64: media[asset.id].base64 }
+        : asset;
+
+    return {
+        ...project,
+        assets: project.assets.map(hydrate),
+        segments: project.segments.map(s => media[s.assetId] ? { ...s, assetUrl: media[s.assetId].url } : s),
+        storyboardSegments: mapStoryboardAssets(project.storyboardSegments, hydrate),
+        characterAnchor: project.characterAnchor && hydrate(project.characterAnchor)
+    };
+};
+
+export const serializeProject = async (data: ProjectData): Promise<Blob> => {
+    const media: Record<string, EmbeddedMedia> = {};
+
+    for (const asset of collectProjectAssets(data)) {
+        const embedded = await readAssetMedia(asset);
+        if (embedded) media[asset.id] = embedded;
+    }
+
+    const file: ProjectFile = {
+        format: PROJECT_FORMAT,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        project: stripProjectMedia(data, new Set(Object.keys(media))),
+        media
+    };
+
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+// Brings project data saved at `schemaVersion` (a .segmenta file or an autosave) up to the current shape
+export const migrateProject = (project: ProjectData, schemaVersion: number): ProjectData => {
+    if (schemaVersion > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`This project was saved by a newer version of Segmenta (schema v${schemaVersion}).`);
+    }
+
+    let migrated = project;
+    for (let v = schemaVersion; v < PROJECT_SCHEMA_VERSION; v++) {
+        const step = MIGRATIONS[v];
+        if (!step) throw new Error(`No migration available from project schema v${v}.`);
+        migrated = step(migrated);
+    }
+    return migrated;
+};
+
+export const deserializeProject = async (source: Blob): Promise<ProjectData> => {
+    let file: ProjectFile;
+    try {
+        file = JSON.parse(await source.text());
+    } catch (e) {
+        throw new Error('Not a valid Segmenta project file.');
+    }
+    if (file?.format !== PROJECT_FORMAT || typeof file.schemaVersion !== 'number') {
+        throw new Error('Not a valid Segmenta project file.');
+    }
+
+    const project = migrateProject(file.project, file.schemaVersion);
+    const { media } = file;
+
+    // One blob URL per media entry, shared by every asset and segment that references it
+    const hydrated: Record<string, { url: string; base64: string }> = {};
+    for (const [id, entry] of Object.entries(media)) {
+        hydrated[id] = {
+            url: URL.createObjectURL(base64ToBlob(entry.data, entry.mimeType)),
+            base64: entry.data
+        };
+    }
+
+    return hydrateProjectMedia(project, hydrated);
+};
@@ -0,0 +1,173 @@
+// Normalized clips from earlier exports, keyed by a hash of everything that shapes them.
+// Kept in memory for this tab and in OPFS across sessions (skipped where OPFS is unavailable).
+const OPFS_DIR = 'segmenta-render-cache';
+const MEMORY_LIMIT_BYTES = 256 * 1024 * 1024;
+const DISK_LIMIT_BYTES = 2 * 1024 * 1024 * 1024;
+// OPFS only records when a file was written, so reads are timestamped here for least-recently-used eviction
+const ACCESS_STORAGE_KEY = 'segmenta.renderCacheAccess';
+
+export type CacheSource = 'memory' | 'disk';
+
+const memoryCache = new Map<string, Uint8Array>(); // Insertion order doubles as least-recently-used order
+let memoryBytes = 0;
+
+// Blob URLs never change content, so each one is hashed once per tab
+const urlHashes = new Map<string, string>();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: Uint8Array | string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+
+/**
+ * Cache key for one normalized clip: the source bytes plus the exact FFmpeg
+ * arguments (trim points, filters, frame rate and encoder settings), so any
+ * change to the clip or the export preset misses.
+ */
+export const getClipCacheKey = async (url: string, bytes: Uint8Array, args: string[]): Promise<string> => {
+    let assetHash = urlHashes.get(url);
+    if (!assetHash) {
+        assetHash = await sha256(bytes);
+        urlHashes.set(url, assetHash);
+    }
+    return sha256(`${assetHash}\n${JSON.stringify(args)}`);
+};
+
+const remember = (key: string, data: Uint8Array) => {
+    if (data.byteLength > MEMORY_LIMIT_BYTES) return;
+    const previous = memoryCache.get(key);
+    if (previous) memoryBytes -= previous.byteLength;
+    memoryCache.delete(key);
+    memoryCache.set(key, data);
+    memoryBytes += data.byteLength;
+    for (const [oldKey, oldData] of memoryCache) {
+        if (memoryBytes <= MEMORY_LIMIT_BYTES) break;
+        memoryCache.delete(oldKey);
+        memoryBytes -= oldData.byteLength;
+    }
+};
+
+const loadAccessTimes = (): Record<string, number> => {
+    try {
+        return JSON.parse(localStorage.getItem(ACCESS_STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const saveAccessTimes = (times: Record<string, number>) => {
+    try {
+        localStorage.setItem(ACCESS_STORAGE_KEY, JSON.stringify(times));
+    } catch (e) {
+        console.warn('[RenderCache] Could not save access times', e);
+    }
+};
+
+const touch = (key: string) => saveAccessTimes({ ...loadAccessTimes(), [key]: Date.now() });
+
+const getCacheDir = async (): Promise<FileSystemDirectoryHandle | null> => {
+    try {
+        const root = await navigator.storage.getDirectory();
+        return await root.getDirectoryHandle(OPFS_DIR, { create: true });
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Deletes cached clips, least recently used first, until `incoming` more bytes
+ * fit within `budget`. Clips never read since they were written count from
+ * their write time. Returns the bytes left on disk.
+ */
+const evictFromDisk = async (dir: FileSystemDirectoryHandle, incoming: number, budget = DISK_LIMIT_BYTES): Promise<number> => {
+    const times = loadAccessTimes();
+    const entries: { key: string; name: string; size: number; lastAccess: number }[] = [];
+    for await (const handle of dir.values()) {
+        if (!(handle instanceof FileSystemFileHandle) || !handle.name.endsWith('.mp4')) continue;
+        const file = await handle.getFile();
+        const key = handle.name.slice(0, -'.mp4'.length);
+        entries.push({ key, name: handle.name, size: file.size, lastAccess: times[key] ?? file.lastModified });
+    }
+    entries.sort((a, b) => a.lastAccess - b.lastAccess);
+
+    let used = entries.reduce((sum, e) => sum + e.size, 0);
+    const kept: Record<string, number> = {};
+    for (const entry of entries) {
+        if (used + incoming > budget) {
+            try {
+                await dir.removeEntry(entry.name);
+                used -= entry.size;
+                continue;
+            } catch (e) {
+                console.warn('[RenderCache] Could not evict', entry.name, e);
+            }
+        }
+        if (times[entry.key] !== undefined) kept[entry.key] = times[entry.key];
+    }
+    saveAccessTimes(kept);
+    return used;
+};
+
+export const readCachedClip = async (key: string): Promise<{ data: Uint8Array; source: CacheSource } | null> => {
+    const inMemory = memoryCache.get(key);
+    if (inMemory) {
+        remember(key, inMemory);
+        return { data: inMemory, source: 'memory' };
+    }
+
+    const dir = await getCacheDir();
+    if (!dir) return null;
+    try {
+        const file = await (await dir.getFileHandle(`${key}.mp4`)).getFile();
+        const data = new Uint8Array(await file.arrayBuffer());
+        remember(key, data);
+        touch(key);
+        return { data, source: 'disk' };
+    } catch {
+        return null;
+    }
+};
+
+// Failures only cost a future cache miss, so they are logged and swallowed. When the
+// browser's storage quota runs out, older clips are evicted and this one isn't kept on disk.
+export const writeCachedClip = async (key: string, data: Uint8Array) => {
+    // Copy: FFmpeg may hand back a view that is transferred or reused
+    const copy = new Uint8Array(data);
+    remember(key, copy);
+
+    const dir = await getCacheDir();
+    if (!dir || copy.byteLength > DISK_LIMIT_BYTES) return;
+    let used = 0;
+    try {
+        used = await evictFromDisk(dir, copy.byteLength);
+        const handle = await dir.getFileHandle(`${key}.mp4`, { create: true });
+        const writable = await handle.createWritable();
+        await writable.write(copy);
+        await writable.close();
+        touch(key);
+    } catch (e) {
+        if (!(e instanceof DOMException && e.name === 'QuotaExceededError')) {
+            console.warn('[RenderCache] OPFS write failed', e);
+            return;
+        }
+        console.warn('[RenderCache] Storage quota reached, evicting older clips and skipping this one');
+        try {
+            await dir.removeEntry(`${key}.mp4`);
+        } catch { }
+        try {
+            await evictFromDisk(dir, copy.byteLength, used);
+        } catch (evictErr) {
+            console.warn('[RenderCache] Eviction failed', evictErr);
+        }
+    }
+};
+
+export const clearRenderCache = async () => {
+    memoryCache.clear();
+    memoryBytes = 0;
+    saveAccessTimes({});
+    try {
+        const root = await navigator.storage.getDirectory();
+        await root.removeEntry(OPFS_DIR, { recursive: true });
+    } catch { }
+};
@@ -24,16 +24,72 @@ export interface Asset {
   };
 }
 
-export enum TrackType {
-  VIDEO_MAIN = 'VIDEO_MAIN',
-  OVERLAY = 'OVERLAY',
+export enum TrackKind {
+  VIDEO = 'VIDEO',
+  TEXT = 'TEXT',
+  CAPTION = 'CAPTION',
   AUDIO = 'AUDIO'
 }
 
+// Lowers an audio track (e.g. music) while clips play on a key track (e.g. voiceover)
+export interface DuckingSettings {
+  keyTrackId: string;
+  depth: number; // dB of gain reduction
+  attack: number; // ms
+  release: number; // ms
+}
+
+// Video tracks stack in list order: the first is the main picture, later ones composite on top.
+// Text tracks draw above every video track, also in list order, and caption tracks above those.
+export interface Track {
+  id: string;
+  kind: TrackKind;
+  name: string;
+  ducking?: DuckingSettings; // Audio tracks only; ducking is on when set
+}
+
+export interface GainKeyframe {
+  time: number; // Seconds into the source media, so keyframes stay on their sound through trims and splits
+  gain: number; // Linear multiplier on top of the clip volume
+}
+
+// Where a reframed version centres its crop window on the source picture
+export interface ReframeKeyframe {
+  time: number; // Seconds into the source media, like GainKeyframe
+  x: number; // Crop centre, 0-1 across the source frame
+  y: number;
+  manual?: boolean; // Placed by hand; re-running auto-reframe keeps it
+}
+
+export type TransitionType = 'crossfade' | 'dipToBlack' | 'dipToWhite' | 'slide' | 'wipe';
+
+// Blends a clip in from the one butted against it on the same track, centred on the cut
+export interface Transition {
+  type: TransitionType;
+  duration: number; // Seconds, half either side of the cut
+}
+
+export type TextAnimation = 'none' | 'fade' | 'slideUp' | 'slideLeft';
+
+// What a clip on a text track draws; sizes are relative to the frame so titles survive any export format
+export interface TextClip {
+  content: string; // May contain line breaks; long lines wrap at 90% of the frame width
+  fontFamily: string;
+  fontSize: number; // Fraction of the frame's shorter side
+  bold: boolean;
+  color: string; // CSS hex colour
+  boxColor?: string; // Background box behind the text; none when unset
+  boxOpacity: number; // 0-1
+  x: number; // Centre of the text block, 0-1 across the frame
+  y: number;
+  animationIn: TextAnimation;
+  animationOut: TextAnimation;
+}
+
 export interface TimelineSegment {
   id: string;
   assetId: string;
-  trackId: TrackType;
+  trackId: string; // Track.id
   startFrame: number; // Simulated frame index
   endFrame: number;
   duration: number; // in seconds
@@ -41,6 +97,16 @@ export interface TimelineSegment {
   isAiGenerated: boolean;
   continuityScore?: number; // 0-100 score with next clip
   linkedSegmentId?: string; // For A/V sync (Decoupled Cut)
+  sourceIn?: number; // Seconds into the source media where the clip starts (default 0)
+  sourceOut?: number; // Seconds into the source media where the clip ends (default sourceIn + duration)
+  sourceDuration?: number; // Full length of the source media, bounds trimming (undefined for stills)
+  volume?: number; // Linear clip gain (default 1)
+  fadeIn?: number; // Seconds from the clip start
+  fadeOut?: number; // Seconds before the clip end
+  gainKeyframes?: GainKeyframe[]; // Sorted by time
+  reframe?: Record<string, ReframeKeyframe[]>; // Per reframed aspect ratio (e.g. '9:16'), sorted by time
+  transitionIn?: Transition; // From the previous clip; only applies while the two are adjacent
+  text?: TextClip; // Set on text- and caption-track clips, which have no asset
   // We need to store the asset URL directly on the segment for easier rendering
   assetUrl?: string; 
   assetType?: AssetType;
@@ -51,6 +117,20 @@ export interface TimelineSegment {
   }
 }
 
+// Speech found by transcription, timed in seconds from the start of the source media
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptSegment {
+  text: string;
+  start: number;
+  end: number;
+  words?: TranscriptWord[];
+}
+
 export interface StoryboardSegment {
   id: number;
   action: string;
@@ -63,6 +143,12 @@ export interface StoryboardSegment {
   audio?: Asset; // New: Generated Audio
 }
 
+// The Director Engine's plan: a description of the subject to keep consistent and the shots to visualize
+export interface StoryboardStructure {
+  character_prompt?: string;
+  segments?: Omit<StoryboardSegment, 'imgA' | 'imgB' | 'audio'>[];
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
@@ -76,3 +162,97 @@ export enum GeneratorModel {
   GEMINI_3_FLASH = 'gemini-3-flash-preview', // Transcription
   GEMINI_TTS = 'gemini-2.5-flash-preview-tts' // Audio
 }
+
+// Services that can back AI generation, chosen separately for each capability
+export type ProviderId = 'gemini' | 'pollinations' | 'mock';
+export type ProviderCapability = 'image' | 'edit' | 'video' | 'tts' | 'transcribe' | 'analyze' | 'chat';
+export type ProviderSelection = Record<ProviderCapability, ProviderId>;
+
+// Output format every module reads from; frame positions are in `fps` units
+export interface ProjectSettings {
+  fps: number;
+  width: number;
+  height: number;
+  pixelAspect: number; // Sample aspect ratio (1 = square pixels)
+}
+
+// Delivery loudness spec for the export's loudness pass
+export interface LoudnessTarget {
+  id: string;
+  label: string;
+  integrated: number; // LUFS
+  truePeak: number; // dBTP ceiling
+  range: number; // Loudness range (LU) the normaliser aims to keep within
+}
+
+// Integrated loudness of the mix as measured before normalising, and of the exported audio after
+export interface LoudnessReport {
+  target: LoudnessTarget;
+  before: number; // LUFS
+  after: number; // LUFS
+  truePeakAfter: number; // dBTP
+}
+
+export type VideoCodec = 'h264' | 'hevc';
+
+// Delivery format for one placement (e.g. vertical Reels); the timeline is fitted into its frame
+export interface ExportPreset {
+  id: string;
+  label: string;
+  aspect: string; // Display ratio, e.g. '9:16'
+  width: number;
+  height: number;
+  fps: number | null; // null keeps the project frame rate
+  videoCodec: VideoCodec;
+  videoBitrate: number; // kbps
+  audioBitrate: number; // kbps
+}
+
+// Per-export choices, as opposed to ProjectSettings which describe the project itself
+export interface RenderOptions {
+  preset: ExportPreset;
+  reframe: boolean; // Crop main-track clips to fill the preset's aspect using their reframe keyframes, instead of letterboxing
+  loudness: LoudnessTarget | null; // null leaves the mix level untouched
+  range: { startFrame: number; endFrame: number } | null; // Project frames; null renders the whole timeline
+  captions: { trackId: string; presetId: string } | null; // Caption track burned into the picture in a preset style; null leaves it clean
+}
+
+export interface RenderResult {
+  url: string;
+  loudness?: LoudnessReport; // Absent when there was no audio or the pass was skipped
+  warnings?: string[]; // Parts of the render that failed and were left out
+}
+
+// The edit a queued job renders, captured when it was queued so later edits don't change it
+export interface RenderInput {
+  segments: TimelineSegment[];
+  tracks: Track[];
+  assets: Asset[];
+  settings: ProjectSettings;
+}
+
+export type RenderJobStatus = 'queued' | 'rendering' | 'done' | 'error' | 'cancelled';
+
+export interface RenderJob {
+  id: string;
+  label: string;
+  input: RenderInput;
+  options: RenderOptions;
+  status: RenderJobStatus;
+  progress: number; // 0-1
+  stage: string;
+  logs: string[];
+  result?: RenderResult;
+  error?: string;
+}
+
+// Everything needed to reopen a session exactly as it was left
+export interface ProjectData {
+  assets: Asset[];
+  segments: TimelineSegment[];
+  storyboardSegments: StoryboardSegment[];
+  characterAnchor: Asset | null;
+  markers: number[]; // Timeline marker positions, in frames
+  settings: ProjectSettings;
+  tracks: Track[];
+}
@@ -0,0 +1,128 @@
+import { TimelineSegment, DuckingSettings } from '../types';
+import { getSourceIn } from './timeline';
+import { framesToSeconds } from './projectSettings';
+
+export const MAX_CLIP_GAIN = 2; // +6 dB
+
+// A point on a piecewise-linear gain curve, in seconds from the clip start (unless noted)
+export interface GainPoint {
+    time: number;
+    gain: number;
+}
+
+export const getClipVolume = (seg: TimelineSegment): number => seg.volume ?? 1;
+
+export const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number): string => gain <= 0 ? '-∞ dB' : `${(20 * Math.log10(gain)).toFixed(1)} dB`;
+
+// Linear interpolation between points, holding the first/last value outside them
+export const gainAt = (points: GainPoint[], time: number): number => {
+    if (points.length === 0) return 1;
+    if (time <= points[0].time) return points[0].gain;
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (time <= b.time) {
+            return b.time === a.time ? b.gain : a.gain + (b.gain - a.gain) * (time - a.time) / (b.time - a.time);
+        }
+    }
+    return points[points.length - 1].gain;
+};
+
+/**
+ * Clip volume multiplied by the keyframe envelope, as clip-local points
+ * covering exactly [0, duration]. Keyframes outside the trimmed range still
+ * shape the value at the edges.
+ */
+export const getEnvelopePoints = (seg: TimelineSegment): GainPoint[] => {
+    const volume = getClipVolume(seg);
+    const sourceIn = getSourceIn(seg);
+    const keyframes = (seg.gainKeyframes || []).map(k => ({ time: k.time - sourceIn, gain: k.gain * volume }));
+    if (keyframes.length === 0) return [{ time: 0, gain: volume }, { time: seg.duration, gain: volume }];
+
+    const inside = keyframes.filter(k => k.time > 0 && k.time < seg.duration);
+    return [
+        { time: 0, gain: gainAt(keyframes, 0) },
+        ...inside,
+        { time: seg.duration, gain: gainAt(keyframes, seg.duration) }
+    ];
+};
+
+// 0 -> 1 -> 1 -> 0 ramp for the fades; lengths are clamped so the two never overlap
+export const getFadePoints = (seg: TimelineSegment): GainPoint[] => {
+    const fadeIn = Math.min(seg.fadeIn || 0, seg.duration);
+    const fadeOut = Math.min(seg.fadeOut || 0, seg.duration - fadeIn);
+    return [
+        { time: 0, gain: fadeIn > 0 ? 0 : 1 },
+        { time: fadeIn, gain: 1 },
+        { time: seg.duration - fadeOut, gain: 1 },
+        { time: seg.duration, gain: fadeOut > 0 ? 0 : 1 }
+    ];
+};
+
+const round = (n: number) => Number(n.toFixed(4));
+
+/**
+ * The same curve as `gainAt`, written as an FFmpeg expression of `t` for the
+ * `volume` filter (evaluated per frame), so the export matches the preview.
+ * Each span is its own term, gated to [start, end), and the terms are summed:
+ * FFmpeg's parser caps nesting depth, so a chain of nested if()s would fail
+ * on curves with many points.
+ */
+export const buildGainExpression = (points: GainPoint[]): string => {
+    if (points.length === 0) return '1';
+    const first = points[0];
+    const last = points[points.length - 1];
+    const terms = [`lt(t,${round(first.time)})*${round(first.gain)}`];
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (b.time <= a.time) continue;
+        const slope = round((b.gain - a.gain) / (b.time - a.time));
+        terms.push(`gte(t,${round(a.time)})*lt(t,${round(b.time)})*(${round(a.gain)}+${slope}*(t-${round(a.time)}))`);
+    }
+    terms.push(`gte(t,${round(last.time)})*${round(last.gain)}`);
+    return terms.join('+');
+};
+
+// Programs a Web Audio param with the curve, for playback that starts `offset` seconds into the clip at context time `startAt`
+export const scheduleGain = (param: AudioParam, points: GainPoint[], offset: number, startAt: number) => {
+    param.setValueAtTime(gainAt(points, offset), startAt);
+    points
+        .filter(p => p.time > offset)
+        .forEach(p => param.linearRampToValueAtTime(p.gain, startAt + (p.time - offset)));
+};
+
+export const DEFAULT_DUCKING: Omit<DuckingSettings, 'keyTrackId'> = { depth: 12, attack: 150, release: 600 };
+
+/**
+ * Gain curve (timeline seconds) for a ducked track in the preview: ramps down
+ * by `depth` over `attack` so it is fully ducked as a key-track clip starts,
+ * and back up over `release` after it ends. The export gets the same shape
+ * from a sidechain compressor keyed on the actual speech.
+ */
+export const getDuckingPoints = (segments: TimelineSegment[], ducking: DuckingSettings, fps: number): GainPoint[] => {
+    const attack = ducking.attack / 1000;
+    const release = ducking.release / 1000;
+    const duckGain = dbToGain(-ducking.depth);
+
+    // Ranges closer together than a full release + attack stay ducked across the gap
+    const ranges = segments
+        .filter(s => s.trackId === ducking.keyTrackId)
+        .map(s => [framesToSeconds(s.startFrame, fps), framesToSeconds(s.startFrame, fps) + s.duration])
+        .sort((a, b) => a[0] - b[0])
+        .reduce<number[][]>((merged, range) => {
+            const last = merged[merged.length - 1];
+            if (last && range[0] <= last[1] + release + attack) last[1] = Math.max(last[1], range[1]);
+            else merged.push([...range]);
+            return merged;
+        }, []);
+
+    const points: GainPoint[] = [{ time: 0, gain: 1 }];
+    ranges.forEach(([start, end]) => {
+        const rampStart = Math.max(0, start - attack);
+        points.push({ time: rampStart, gain: 1 }, { time: start, gain: duckGain }, { time: end, gain: duckGain }, { time: end + release, gain: 1 });
+    });
+    return points;
+};
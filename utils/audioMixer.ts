@@ -0,0 +1,167 @@
+import { useEffect, useRef } from 'react';
+import { TimelineSegment, Track, TrackKind } from '../types';
+import { getSourceIn } from './timeline';
+import { getTracksOfKind, getMainTrackId } from './tracks';
+import { framesToSeconds } from './projectSettings';
+import { GainPoint, getEnvelopePoints, getFadePoints, getDuckingPoints, scheduleGain } from './audioGain';
+import { getTrackTransitions, getLinkedAudioTransitions, getClipHandles, getCrossfadePoints } from './transitions';
+
+// How far the audio clock may wander from the master clock before every clip is rescheduled
+const RESYNC_THRESHOLD = 0.25;
+
+interface MixerOptions {
+    segments: TimelineSegment[];
+    tracks: Track[];
+    fps: number;
+    timelineTime: number; // Master clock from App, in seconds
+    isPlaying: boolean;
+}
+
+// Decoded once per URL while a clip on the timeline uses it; a failed decode resolves to null
+const bufferCache = new Map<string, Promise<AudioBuffer | null>>();
+
+const loadBuffer = (ctx: AudioContext, url: string): Promise<AudioBuffer | null> => {
+    let pending = bufferCache.get(url);
+    if (!pending) {
+        pending = fetch(url)
+            .then(response => response.arrayBuffer())
+            .then(data => ctx.decodeAudioData(data))
+            .catch(e => {
+                console.warn(`[AudioMixer] Could not decode audio from ${url}`, e);
+                return null;
+            });
+        bufferCache.set(url, pending);
+    }
+    return pending;
+};
+
+// Releases buffers no clip plays any more (deleted clips, removed assets, revoked blob URLs).
+// A clip brought back by undo just decodes its media again.
+const pruneBuffers = (segments: TimelineSegment[]) => {
+    const inUse = new Set(segments.map(s => s.assetUrl));
+    for (const url of [...bufferCache.keys()]) {
+        if (!inUse.has(url)) bufferCache.delete(url);
+    }
+};
+
+/**
+ * Plays every audio-track clip under the playhead at once through a Web Audio
+ * graph (clip source -> envelope gain -> fade gain -> crossfade gain -> track
+ * gain -> master gain -> speakers). Ducked tracks automate their track gain;
+ * linked audio under a picture transition plays into its handles and crossfades.
+ * Clips are scheduled on the AudioContext clock from an anchor taken when
+ * playback starts; seeks and clock drift re-anchor and reschedule everything.
+ */
+export const useAudioMixer = ({ segments, tracks, fps, timelineTime, isPlaying }: MixerOptions) => {
+    const ctxRef = useRef<AudioContext | null>(null);
+    const masterRef = useRef<GainNode | null>(null);
+    const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+    const trackGainsRef = useRef<GainNode[]>([]);
+    const anchorRef = useRef<{ ctxTime: number; timelineTime: number } | null>(null);
+    const generationRef = useRef(0); // Bumped on every reschedule so late buffer loads are dropped
+    const timelineTimeRef = useRef(timelineTime);
+    timelineTimeRef.current = timelineTime;
+
+    const getContext = () => {
+        if (!ctxRef.current) {
+            const ctx = new AudioContext();
+            const master = ctx.createGain();
+            master.connect(ctx.destination);
+            ctxRef.current = ctx;
+            masterRef.current = master;
+        }
+        return ctxRef.current;
+    };
+
+    const stopAll = () => {
+        generationRef.current++;
+        sourcesRef.current.forEach(src => {
+            try { src.stop(); } catch { }
+            src.disconnect();
+        });
+        sourcesRef.current = [];
+        trackGainsRef.current.forEach(node => node.disconnect());
+        trackGainsRef.current = [];
+        anchorRef.current = null;
+    };
+
+    const schedule = async () => {
+        stopAll();
+        const generation = generationRef.current;
+        const ctx = getContext();
+        await ctx.resume();
+        if (generation !== generationRef.current) return;
+
+        const anchor = { ctxTime: ctx.currentTime, timelineTime: timelineTimeRef.current };
+        anchorRef.current = anchor;
+
+        const trackGains = new Map<string, GainNode>();
+        getTracksOfKind(tracks, TrackKind.AUDIO).forEach(track => {
+            const node = ctx.createGain();
+            if (track.ducking) scheduleGain(node.gain, getDuckingPoints(segments, track.ducking, fps), anchor.timelineTime, anchor.ctxTime);
+            node.connect(masterRef.current!);
+            trackGains.set(track.id, node);
+        });
+        trackGainsRef.current = [...trackGains.values()];
+
+        const clips = segments.filter(s => trackGains.has(s.trackId) && s.assetUrl);
+        const crossfades = getLinkedAudioTransitions(segments, getTrackTransitions(segments, getMainTrackId(tracks)));
+
+        clips.forEach(async seg => {
+            // Clip-local times below run from the start of the lead handle
+            const handles = getClipHandles(seg, crossfades);
+            const clipStart = framesToSeconds(seg.startFrame, fps) - handles.lead;
+            const clipEnd = clipStart + handles.lead + seg.duration + handles.tail;
+            if (clipEnd <= anchor.timelineTime) return;
+
+            const buffer = await loadBuffer(ctx, seg.assetUrl!);
+            if (!buffer || generation !== generationRef.current) return;
+
+            // The buffer may arrive after playback has moved on, so position from the live clock
+            const now = ctx.currentTime;
+            const playhead = anchor.timelineTime + (now - anchor.ctxTime);
+            if (clipEnd <= playhead) return;
+
+            // Lead handle the source can't supply stays silent, so playback waits for the media
+            const from = Math.max(playhead, clipStart + handles.lead - handles.leadMedia);
+            if (clipEnd <= from) return;
+            const startAt = now + (from - playhead);
+            const offset = from - clipStart;
+
+            const src = ctx.createBufferSource();
+            src.buffer = buffer;
+            const envelopeGain = ctx.createGain();
+            const fadeGain = ctx.createGain();
+            const crossfadeGain = ctx.createGain();
+            const shift = (points: GainPoint[]) => points.map(p => ({ ...p, time: p.time + handles.lead }));
+            scheduleGain(envelopeGain.gain, shift(getEnvelopePoints(seg)), offset, startAt);
+            scheduleGain(fadeGain.gain, shift(getFadePoints(seg)), offset, startAt);
+            scheduleGain(crossfadeGain.gain, getCrossfadePoints(seg, handles), offset, startAt);
+            src.connect(envelopeGain).connect(fadeGain).connect(crossfadeGain).connect(trackGains.get(seg.trackId)!);
+            src.start(startAt, getSourceIn(seg) - handles.lead + offset, clipEnd - from);
+            sourcesRef.current.push(src);
+        });
+    };
+
+    // Start / stop with the transport; any edit while playing reschedules from the playhead
+    useEffect(() => {
+        if (isPlaying) schedule();
+        else stopAll();
+    }, [isPlaying, segments, tracks, fps]);
+
+    useEffect(() => pruneBuffers(segments), [segments]);
+
+    // Seeks (and slow drift between the rAF clock and the audio clock) show up as a mismatch here
+    useEffect(() => {
+        const ctx = ctxRef.current;
+        const anchor = anchorRef.current;
+        if (!isPlaying || !ctx || !anchor) return;
+        const expected = anchor.timelineTime + (ctx.currentTime - anchor.ctxTime);
+        if (Math.abs(expected - timelineTime) > RESYNC_THRESHOLD) schedule();
+    }, [timelineTime]);
+
+    useEffect(() => () => {
+        stopAll();
+        ctxRef.current?.close();
+    }, []);
+};
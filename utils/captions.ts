@@ -0,0 +1,151 @@
+import { TimelineSegment, Track, TrackKind, TextClip, TranscriptSegment, TranscriptWord } from '../types';
+import { getSourceIn, getSourceOut } from './timeline';
+import { framesToSeconds, secondsToFrames } from './projectSettings';
+
+// Readability limits for one caption on screen
+const MAX_CUE_CHARS = 42;
+const MAX_CUE_SECONDS = 5;
+
+// How new captions look: bottom-centred white text on a translucent box, no animation
+export const CAPTION_STYLE: Omit<TextClip, 'content'> = {
+    fontFamily: 'Arial',
+    fontSize: 0.045,
+    bold: true,
+    color: '#FFFFFF',
+    boxColor: '#000000',
+    boxOpacity: 0.6,
+    x: 0.5,
+    y: 0.88,
+    animationIn: 'none',
+    animationOut: 'none'
+};
+
+export interface CaptionPreset {
+    id: string;
+    label: string;
+    style: Omit<TextClip, 'content'> | null; // null keeps each caption's own style
+}
+
+// Looks for burning captions into an export
+export const CAPTION_PRESETS: CaptionPreset[] = [
+    { id: 'asEdited', label: 'As Edited', style: null },
+    { id: 'classic', label: 'Classic', style: CAPTION_STYLE },
+    {
+        id: 'boldPop',
+        label: 'Bold Pop',
+        // Raised clear of the buttons and descriptions social apps lay over the bottom of the frame
+        style: {
+            fontFamily: 'Impact', fontSize: 0.075, bold: false, color: '#FACC15',
+            boxOpacity: 0, x: 0.5, y: 0.7, animationIn: 'none', animationOut: 'none'
+        }
+    },
+    {
+        id: 'minimal',
+        label: 'Minimal',
+        style: {
+            fontFamily: 'Helvetica', fontSize: 0.04, bold: false, color: '#FFFFFF',
+            boxOpacity: 0, x: 0.5, y: 0.9, animationIn: 'none', animationOut: 'none'
+        }
+    }
+];
+
+export const getCaptionPresetLabel = (presetId: string): string => CAPTION_PRESETS.find(p => p.id === presetId)?.label || presetId;
+
+export const applyCaptionPreset = (clip: TextClip, presetId: string): TextClip => {
+    const style = CAPTION_PRESETS.find(p => p.id === presetId)?.style;
+    return style ? { ...style, content: clip.content } : clip;
+};
+
+// One caption's text and timing, in seconds (from the start of the source media, or of the timeline)
+export interface CaptionCue {
+    text: string;
+    start: number;
+    end: number;
+}
+
+const joinWords = (words: TranscriptWord[]) => words.map(w => w.text.trim()).join(' ');
+
+/**
+ * Turns transcript segments into cues short enough to read. Segments over the
+ * limits are split between words, timed by their word timings; segments without
+ * word timings are kept whole.
+ */
+export const buildCaptionCues = (segments: TranscriptSegment[]): CaptionCue[] =>
+    segments.flatMap(seg => {
+        const words = (seg.words || []).filter(w => w.text.trim() && w.end >= w.start);
+        const fits = seg.text.trim().length <= MAX_CUE_CHARS && seg.end - seg.start <= MAX_CUE_SECONDS;
+        if (fits || words.length === 0) return [{ text: seg.text.trim(), start: seg.start, end: seg.end }];
+
+        const cues: CaptionCue[] = [];
+        let current: TranscriptWord[] = [];
+        const flush = () => {
+            if (current.length > 0) cues.push({ text: joinWords(current), start: current[0].start, end: current[current.length - 1].end });
+            current = [];
+        };
+        words.forEach(word => {
+            const tooLong = joinWords([...current, word]).length > MAX_CUE_CHARS || word.end - (current[0]?.start ?? word.start) > MAX_CUE_SECONDS;
+            if (current.length > 0 && tooLong) flush();
+            current.push(word);
+        });
+        flush();
+        return cues;
+    });
+
+/**
+ * The timeline clips that play a transcribed asset: its clips on audio tracks
+ * (where a video's sound lands when it is split off), or its video clips when
+ * it has none there.
+ */
+export const getCaptionSourceClips = (segments: TimelineSegment[], tracks: Track[], assetId: string): TimelineSegment[] => {
+    const kindOf = (seg: TimelineSegment) => tracks.find(t => t.id === seg.trackId)?.kind;
+    const clips = segments.filter(s => s.assetId === assetId);
+    const audioClips = clips.filter(s => kindOf(s) === TrackKind.AUDIO);
+    return audioClips.length > 0 ? audioClips : clips.filter(s => kindOf(s) === TrackKind.VIDEO);
+};
+
+// Caption clips have no asset; their text lives in `text`, in the default caption style
+const createCaptionSegment = (id: string, trackId: string, text: string, start: number, duration: number, fps: number, isAiGenerated: boolean): TimelineSegment => {
+    const startFrame = Math.round(secondsToFrames(start, fps));
+    return {
+        id,
+        assetId: '',
+        trackId,
+        startFrame,
+        endFrame: startFrame + secondsToFrames(duration, fps),
+        duration,
+        label: text.split('\n')[0],
+        isAiGenerated,
+        text: { ...CAPTION_STYLE, content: text }
+    };
+};
+
+/**
+ * Caption clips for one timeline clip: each cue is cut to the clip's trimmed
+ * source range and placed where that part of the source plays.
+ */
+export const placeCaptions = (cues: CaptionCue[], clip: TimelineSegment, trackId: string, fps: number, createId: () => string): TimelineSegment[] => {
+    const sourceIn = getSourceIn(clip);
+    const sourceOut = getSourceOut(clip);
+    const clipStart = framesToSeconds(clip.startFrame, fps);
+
+    return cues
+        .filter(cue => cue.end > sourceIn && cue.start < sourceOut)
+        .map(cue => {
+            const from = Math.max(cue.start, sourceIn);
+            return createCaptionSegment(createId(), trackId, cue.text, clipStart + from - sourceIn, Math.min(cue.end, sourceOut) - from, fps, true);
+        });
+};
+
+// Caption clips for cues already timed against the timeline, e.g. from an imported subtitle file
+export const placeTimelineCaptions = (cues: CaptionCue[], trackId: string, fps: number, createId: () => string): TimelineSegment[] =>
+    cues.map(cue => createCaptionSegment(createId(), trackId, cue.text, cue.start, cue.end - cue.start, fps, false));
+
+// A caption track's clips as cues in timeline seconds, in play order
+export const getTrackCues = (segments: TimelineSegment[], trackId: string, fps: number): CaptionCue[] =>
+    segments
+        .filter(s => s.trackId === trackId && s.text?.content.trim())
+        .sort((a, b) => a.startFrame - b.startFrame)
+        .map(s => {
+            const start = framesToSeconds(s.startFrame, fps);
+            return { text: s.text!.content.trim(), start, end: start + s.duration };
+        });
@@ -0,0 +1,176 @@
+import { useReducer, useCallback } from 'react';
+import { Asset, TimelineSegment, Track, ProjectSettings } from '../types';
+
+const MAX_HISTORY = 100;
+
+export interface EditorState {
+    assets: Asset[];
+    segments: TimelineSegment[];
+    tracks: Track[];
+    markers: number[]; // Frames
+    settings: ProjectSettings; // Frame positions are counted in its fps, so a rate change travels with the rescale
+}
+
+// Items an edit replaced (`before`) and the items it put in their place (`after`)
+interface ItemChange<T> {
+    before: T[];
+    after: T[];
+}
+
+export interface EditCommand {
+    label: string;
+    timestamp: number;
+    segments: ItemChange<TimelineSegment>;
+    assets: ItemChange<Asset>;
+    // Track order is meaningful, so track edits record the whole list rather than an item diff
+    tracks?: ItemChange<Track>;
+    // Markers are bare frame numbers with no id to diff by, so they are recorded whole as well
+    markers?: ItemChange<number>;
+    settings?: { before: ProjectSettings; after: ProjectSettings };
+}
+
+interface HistoryState {
+    present: EditorState;
+    past: EditCommand[];
+    future: EditCommand[]; // Most recently undone command last
+}
+
+type HistoryAction =
+    | { type: 'EXECUTE'; label: string; update: (state: EditorState) => EditorState }
+    | { type: 'UNDO' }
+    | { type: 'REDO' }
+    | { type: 'JUMP'; position: number }
+    | { type: 'RESET'; state: EditorState };
+
+// Unchanged items keep their object identity through an update, so a reference diff is enough
+const diffItems = <T,>(prev: T[], next: T[]): ItemChange<T> => ({
+    before: prev.filter(item => !next.includes(item)),
+    after: next.filter(item => !prev.includes(item))
+});
+
+// Swap `remove` for `insert`, keeping modified items at their original index
+const swapItems = <T extends { id: string }>(list: T[], remove: T[], insert: T[]): T[] => {
+    const removeIds = new Set(remove.map(item => item.id));
+    const pending = new Map(insert.map(item => [item.id, item]));
+
+    const result = list.flatMap(item => {
+        const replacement = pending.get(item.id);
+        if (replacement) {
+            pending.delete(item.id);
+            return [replacement];
+        }
+        return removeIds.has(item.id) ? [] : [item];
+    });
+    return [...result, ...pending.values()];
+};
+
+const applyCommand = (state: EditorState, command: EditCommand, direction: 'undo' | 'redo'): EditorState => {
+    const [segFrom, segTo] = direction === 'undo'
+        ? [command.segments.after, command.segments.before]
+        : [command.segments.before, command.segments.after];
+    const [assetFrom, assetTo] = direction === 'undo'
+        ? [command.assets.after, command.assets.before]
+        : [command.assets.before, command.assets.after];
+
+    const tracks = command.tracks ? (direction === 'undo' ? command.tracks.before : command.tracks.after) : state.tracks;
+    const markers = command.markers ? (direction === 'undo' ? command.markers.before : command.markers.after) : state.markers;
+    const settings = command.settings ? (direction === 'undo' ? command.settings.before : command.settings.after) : state.settings;
+
+    return {
+        segments: swapItems(state.segments, segFrom, segTo),
+        assets: swapItems(state.assets, assetFrom, assetTo),
+        tracks,
+        markers,
+        settings
+    };
+};
+
+const undoOnce = (state: HistoryState): HistoryState => {
+    const command = state.past[state.past.length - 1];
+    if (!command) return state;
+    return {
+        present: applyCommand(state.present, command, 'undo'),
+        past: state.past.slice(0, -1),
+        future: [...state.future, command]
+    };
+};
+
+const redoOnce = (state: HistoryState): HistoryState => {
+    const command = state.future[state.future.length - 1];
+    if (!command) return state;
+    return {
+        present: applyCommand(state.present, command, 'redo'),
+        past: [...state.past, command],
+        future: state.future.slice(0, -1)
+    };
+};
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+    switch (action.type) {
+        case 'EXECUTE': {
+            const next = action.update(state.present);
+            const segments = diffItems(state.present.segments, next.segments);
+            const assets = diffItems(state.present.assets, next.assets);
+            const tracks = next.tracks !== state.present.tracks ? { before: state.present.tracks, after: next.tracks } : undefined;
+            const markers = next.markers !== state.present.markers ? { before: state.present.markers, after: next.markers } : undefined;
+            const settings = next.settings !== state.present.settings ? { before: state.present.settings, after: next.settings } : undefined;
+            const isNoop = !tracks && !markers && !settings && segments.before.length + segments.after.length + assets.before.length + assets.after.length === 0;
+            if (isNoop) return state;
+
+            const command: EditCommand = { label: action.label, timestamp: Date.now(), segments, assets, tracks, markers, settings };
+            return {
+                present: next,
+                past: [...state.past, command].slice(-MAX_HISTORY),
+                future: []
+            };
+        }
+        case 'UNDO':
+            return undoOnce(state);
+        case 'REDO':
+            return redoOnce(state);
+        case 'JUMP': {
+            let next = state;
+            while (next.past.length > action.position && next.past.length > 0) next = undoOnce(next);
+            while (next.past.length < action.position && next.future.length > 0) next = redoOnce(next);
+            return next;
+        }
+        case 'RESET':
+            return { present: action.state, past: [], future: [] };
+        default:
+            return state;
+    }
+};
+
+export const useEditHistory = (initialState: EditorState) => {
+    const [history, dispatch] = useReducer(historyReducer, {
+        present: initialState,
+        past: [],
+        future: []
+    });
+
+    const execute = useCallback((label: string, update: (state: EditorState) => EditorState) => {
+        dispatch({ type: 'EXECUTE', label, update });
+    }, []);
+    const undo = useCallback(() => dispatch({ type: 'UNDO' }), []);
+    const redo = useCallback(() => dispatch({ type: 'REDO' }), []);
+    const jumpTo = useCallback((position: number) => dispatch({ type: 'JUMP', position }), []);
+    const reset = useCallback((state: EditorState) => dispatch({ type: 'RESET', state }), []);
+
+    return {
+        assets: history.present.assets,
+        segments: history.present.segments,
+        tracks: history.present.tracks,
+        markers: history.present.markers,
+        settings: history.present.settings,
+        // Full timeline of commands; the first `position` of them are currently applied
+        entries: [...history.past, ...[...history.future].reverse()],
+        position: history.past.length,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+        execute,
+        undo,
+        redo,
+        jumpTo,
+        reset
+    };
+};
@@ -0,0 +1,39 @@
+import { ExportPreset, ProjectSettings } from '../types';
+
+// Sizes and rates follow each platform's upload recommendations
+export const EXPORT_PRESETS: ExportPreset[] = [
+    { id: 'landscape', label: 'YouTube / Web', aspect: '16:9', width: 1920, height: 1080, fps: 30, videoCodec: 'h264', videoBitrate: 8000, audioBitrate: 192 },
+    { id: 'vertical', label: 'Reels / TikTok / Shorts', aspect: '9:16', width: 1080, height: 1920, fps: 30, videoCodec: 'h264', videoBitrate: 6000, audioBitrate: 128 },
+    { id: 'square', label: 'Feed Square', aspect: '1:1', width: 1080, height: 1080, fps: 30, videoCodec: 'h264', videoBitrate: 5000, audioBitrate: 128 },
+    { id: 'portrait', label: 'Feed Portrait', aspect: '4:5', width: 1080, height: 1350, fps: 30, videoCodec: 'h264', videoBitrate: 5000, audioBitrate: 128 }
+];
+
+export const VIDEO_CODEC_LABELS: Record<ExportPreset['videoCodec'], string> = {
+    h264: 'H.264',
+    hevc: 'H.265 / HEVC'
+};
+
+// Exports exactly what the project settings describe
+export const getProjectPreset = (settings: ProjectSettings): ExportPreset => ({
+    id: 'project',
+    label: 'Project Settings',
+    aspect: `${settings.width}:${settings.height}`,
+    width: settings.width,
+    height: settings.height,
+    fps: null,
+    videoCodec: 'h264',
+    videoBitrate: 6000,
+    audioBitrate: 128
+});
+
+/**
+ * The frame the export is rendered into. Timeline positions stay in project
+ * frames; only the output size and rate change. Platform presets assume
+ * square pixels, the project preset keeps the project's pixel aspect.
+ */
+export const getOutputFormat = (preset: ExportPreset, settings: ProjectSettings): ProjectSettings => ({
+    fps: preset.fps ?? settings.fps,
+    width: preset.width,
+    height: preset.height,
+    pixelAspect: preset.id === 'project' ? settings.pixelAspect : 1
+});
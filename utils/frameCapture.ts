@@ -0,0 +1,54 @@
+import { AssetType } from '../types';
+
+// Frames sent for analysis don't need full resolution; this keeps requests small
+const MAX_CAPTURE_SIZE = 512;
+
+const loadMedia = <T extends HTMLVideoElement | HTMLImageElement>(el: T, event: string): Promise<T> =>
+    new Promise((resolve, reject) => {
+        el.addEventListener(event, () => resolve(el), { once: true });
+        el.addEventListener('error', () => reject(new Error('Could not load media for frame capture')), { once: true });
+    });
+
+const drawToJpeg = (source: CanvasImageSource, width: number, height: number): string => {
+    const scale = Math.min(1, MAX_CAPTURE_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+};
+
+/**
+ * Grabs downscaled JPEG frames (base64, no data-URL prefix) at the given
+ * source times. A still yields the same single frame for every time.
+ */
+export const captureFrames = async (url: string, assetType: AssetType | undefined, times: number[]): Promise<string[]> => {
+    if (assetType === AssetType.IMAGE) {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        const loaded = loadMedia(img, 'load');
+        img.src = url;
+        await loaded;
+        const frame = drawToJpeg(img, img.naturalWidth, img.naturalHeight);
+        return times.map(() => frame);
+    }
+
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.muted = true;
+    video.preload = 'auto';
+    const loaded = loadMedia(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+
+    const frames: string[] = [];
+    for (const time of times) {
+        const seeked = loadMedia(video, 'seeked');
+        video.currentTime = Math.min(time, Math.max(0, video.duration - 0.05));
+        await seeked;
+        frames.push(drawToJpeg(video, video.videoWidth, video.videoHeight));
+    }
+    video.removeAttribute('src');
+    video.load();
+    return frames;
+};
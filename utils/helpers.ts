@@ -15,16 +15,28 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+// Length of a video or audio file in seconds, from its metadata; 0 when the browser can't read it
+export const getMediaDuration = (url: string, kind: 'video' | 'audio'): Promise<number> =>
+    new Promise(resolve => {
+        const media = document.createElement(kind);
+        media.preload = 'metadata';
+        media.onloadedmetadata = () => resolve(Number.isFinite(media.duration) ? media.duration : 0);
+        media.onerror = () => resolve(0);
+        media.src = url;
+    });
+
 export const blobUrlToBase64 = async (blobUrl: string): Promise<string> => {
     const response = await fetch(blobUrl);
-    const blob = await response.blob();
+    return blobToBase64(await response.blob());
+}
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
     return new Promise((resolve, reject) => {
         const reader = new FileReader();
         reader.readAsDataURL(blob);
         reader.onloadend = () => {
-             if (typeof reader.result === 'string') {
-                const base64 = reader.result.split(',')[1];
-                resolve(base64);
+            if (typeof reader.result === 'string') {
+                resolve(reader.result.split(',')[1]);
             } else {
                 reject(new Error("Failed to convert blob to base64"));
             }
@@ -32,3 +44,12 @@ export const blobUrlToBase64 = async (blobUrl: string): Promise<string> => {
         reader.onerror = reject;
     });
 }
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
@@ -0,0 +1,50 @@
+import { LoudnessTarget } from '../types';
+
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+    { id: 'streaming', label: 'Streaming / Social (-14 LUFS)', integrated: -14, truePeak: -1, range: 11 },
+    { id: 'podcast', label: 'Podcast (-16 LUFS)', integrated: -16, truePeak: -1, range: 11 },
+    { id: 'broadcast', label: 'Broadcast EBU R128 (-23 LUFS)', integrated: -23, truePeak: -1, range: 15 }
+];
+
+export const DEFAULT_LOUDNESS_TARGET = LOUDNESS_TARGETS[0];
+
+// The fields `loudnorm` prints with print_format=json (values arrive as strings)
+export interface LoudnormStats {
+    input_i: string;
+    input_tp: string;
+    input_lra: string;
+    input_thresh: string;
+    output_i: string;
+    output_tp: string;
+    target_offset: string;
+}
+
+/**
+ * Pulls the JSON block `loudnorm` prints at the end of a run out of the
+ * collected FFmpeg log. Returns null if the filter never reported.
+ */
+export const parseLoudnormStats = (log: string): LoudnormStats | null => {
+    const end = log.lastIndexOf('}');
+    const start = log.lastIndexOf('{', end);
+    if (start < 0 || end < 0) return null;
+    try {
+        const stats = JSON.parse(log.slice(start, end + 1));
+        return typeof stats.input_i === 'string' ? stats : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * First pass: measure only. Second pass: feed the measurement back so the
+ * filter can apply one linear gain (falling back to dynamic compression only
+ * when that gain would push peaks past the true-peak ceiling).
+ */
+export const buildLoudnormFilter = (target: LoudnessTarget, measured?: LoudnormStats): string => {
+    const base = `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}`;
+    if (!measured) return `${base}:print_format=json`;
+    return `${base}:measured_I=${measured.input_i}:measured_TP=${measured.input_tp}:measured_LRA=${measured.input_lra}`
+        + `:measured_thresh=${measured.input_thresh}:offset=${measured.target_offset}:linear=true:print_format=json`;
+};
+
+export const formatLufs = (value: number): string => Number.isFinite(value) ? `${value.toFixed(1)} LUFS` : '-∞ LUFS';
@@ -0,0 +1,48 @@
+import { ProjectSettings, TimelineSegment } from '../types';
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+    fps: 30,
+    width: 1280,
+    height: 720,
+    pixelAspect: 1
+};
+
+export const FRAME_RATE_OPTIONS = [24, 25, 30, 60];
+
+export const RESOLUTION_PRESETS = [
+    { label: '720p HD', width: 1280, height: 720 },
+    { label: '1080p Full HD', width: 1920, height: 1080 },
+    { label: '4K UHD', width: 3840, height: 2160 }
+];
+
+export const PIXEL_ASPECT_OPTIONS = [
+    { label: 'Square (1.0)', value: 1 },
+    { label: 'Anamorphic 2x', value: 2 },
+    { label: 'DVCPRO HD (1.5)', value: 1.5 }
+];
+
+// --- Frame / Time Conversion ---
+// Every frame<->seconds conversion goes through these so the frame rate lives in one place.
+export const framesToSeconds = (frames: number, fps: number): number => frames / fps;
+
+export const secondsToFrames = (seconds: number, fps: number): number => seconds * fps;
+
+// Re-expresses frame positions in a new frame rate, keeping every clip at the same time (to the nearest whole frame)
+export const rescaleSegments = (segments: TimelineSegment[], fromFps: number, toFps: number): TimelineSegment[] => {
+    if (fromFps === toFps) return segments;
+    return segments.map(s => {
+        const startFrame = Math.round(secondsToFrames(framesToSeconds(s.startFrame, fromFps), toFps));
+        const lengthFrames = Math.max(1, Math.round(secondsToFrames(s.duration, toFps)));
+        const duration = framesToSeconds(lengthFrames, toFps);
+        return {
+            ...s,
+            startFrame,
+            endFrame: startFrame + lengthFrames,
+            duration,
+            ...(s.sourceOut !== undefined && { sourceOut: (s.sourceIn || 0) + duration })
+        };
+    });
+};
+
+export const rescaleFrames = (frames: number[], fromFps: number, toFps: number): number[] =>
+    frames.map(f => Math.round(secondsToFrames(framesToSeconds(f, fromFps), toFps)));
@@ -0,0 +1,94 @@
+import { TimelineSegment, ReframeKeyframe, AssetType } from '../types';
+import { getSourceIn } from './timeline';
+import { buildGainExpression } from './audioGain';
+
+// Aspect ratios a 16:9 master can be reframed into; the keys used in TimelineSegment.reframe
+export const REFRAME_ASPECTS = ['9:16', '1:1'];
+
+// Keyframes closer than this are treated as the same keyframe when placing a new one
+const KEYFRAME_MERGE_WINDOW = 0.05;
+// Auto keyframes this close to a manual one are dropped, so a hand-placed centre wins
+const MANUAL_OVERRIDE_WINDOW = 0.5;
+
+export interface ReframeCenter {
+    x: number;
+    y: number;
+}
+
+export const isReframeAspect = (aspect: string): boolean => REFRAME_ASPECTS.includes(aspect);
+
+// '9:16' -> 0.5625 (width / height)
+export const parseAspect = (aspect: string): number => {
+    const [w, h] = aspect.split(':').map(Number);
+    return w > 0 && h > 0 ? w / h : 1;
+};
+
+export const getReframeKeyframes = (seg: TimelineSegment, aspect: string): ReframeKeyframe[] => seg.reframe?.[aspect] || [];
+
+// Linear between keyframes, holding the first/last outside them; centred when there are none
+export const getReframeCenter = (keyframes: ReframeKeyframe[], sourceTime: number): ReframeCenter => {
+    if (keyframes.length === 0) return { x: 0.5, y: 0.5 };
+    if (sourceTime <= keyframes[0].time) return keyframes[0];
+    for (let i = 1; i < keyframes.length; i++) {
+        const a = keyframes[i - 1];
+        const b = keyframes[i];
+        if (sourceTime <= b.time) {
+            const f = b.time === a.time ? 1 : (sourceTime - a.time) / (b.time - a.time);
+            return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+        }
+    }
+    return keyframes[keyframes.length - 1];
+};
+
+// The largest window of `targetRatio` that fits the source, as fractions of the source width/height
+export const getCropSize = (sourceRatio: number, targetRatio: number): { w: number; h: number } =>
+    sourceRatio > targetRatio ? { w: targetRatio / sourceRatio, h: 1 } : { w: 1, h: sourceRatio / targetRatio };
+
+// Keeps the crop window inside the source frame
+export const clampCenter = (center: ReframeCenter, crop: { w: number; h: number }): ReframeCenter => ({
+    x: Math.min(Math.max(center.x, crop.w / 2), 1 - crop.w / 2),
+    y: Math.min(Math.max(center.y, crop.h / 2), 1 - crop.h / 2)
+});
+
+// About one analysed frame per second of clip, within limits that keep the request small
+const MAX_SAMPLES = 8;
+
+// Source times to analyse for a clip; stills only need one look
+export const getReframeSampleTimes = (seg: TimelineSegment): number[] => {
+    const sourceIn = getSourceIn(seg);
+    if (seg.assetType === AssetType.IMAGE) return [sourceIn];
+    const count = Math.min(MAX_SAMPLES, Math.max(2, Math.ceil(seg.duration) + 1));
+    return Array.from({ length: count }, (_, i) => sourceIn + (seg.duration * i) / (count - 1));
+};
+
+// Places (or replaces) one keyframe and returns the segment's updated reframe map
+export const setReframeKeyframe = (seg: TimelineSegment, aspect: string, keyframe: ReframeKeyframe): Record<string, ReframeKeyframe[]> => {
+    const keyframes = getReframeKeyframes(seg, aspect).filter(k => Math.abs(k.time - keyframe.time) > KEYFRAME_MERGE_WINDOW);
+    return { ...seg.reframe, [aspect]: [...keyframes, keyframe].sort((a, b) => a.time - b.time) };
+};
+
+// Swaps the previous analysis for a new one, keeping every manual keyframe
+export const mergeAutoKeyframes = (seg: TimelineSegment, aspect: string, auto: ReframeKeyframe[]): Record<string, ReframeKeyframe[]> => {
+    const manual = getReframeKeyframes(seg, aspect).filter(k => k.manual);
+    const kept = auto.filter(a => !manual.some(m => Math.abs(m.time - a.time) < MANUAL_OVERRIDE_WINDOW));
+    return { ...seg.reframe, [aspect]: [...manual, ...kept].sort((a, b) => a.time - b.time) };
+};
+
+/**
+ * FFmpeg crop for one clip: the largest `aspect` window that fits the source,
+ * panned along the keyframed centre (as an expression of clip-local `t`,
+ * the same piecewise-linear curve the preview interpolates). The curve is a
+ * flat sum of one gated term per span, so long keyframe runs don't nest
+ * `if()` calls past what FFmpeg's expression parser accepts. `lead` is how
+ * many seconds before the in point the clip's stream starts (transition handles).
+ */
+export const buildCropFilter = (seg: TimelineSegment, aspect: string, lead = 0): string => {
+    const ratio = parseAspect(aspect).toFixed(6);
+    const sourceIn = getSourceIn(seg) - lead;
+    const keyframes = getReframeKeyframes(seg, aspect);
+    const curve = (axis: 'x' | 'y') => keyframes.length === 0
+        ? '0.5'
+        : buildGainExpression(keyframes.map(k => ({ time: k.time - sourceIn, gain: k[axis] })));
+    return `crop=w='min(iw,ih*${ratio})':h='min(ih,iw/${ratio})'`
+        + `:x='clip((${curve('x')})*iw-ow/2,0,iw-ow)':y='clip((${curve('y')})*ih-oh/2,0,ih-oh)'`;
+};
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { RenderJob, RenderInput, RenderOptions, ProjectSettings } from '../types';
+import { renderTimeline, RenderCancelledError } from '../services/ffmpegService';
+import { getOutputFormat, VIDEO_CODEC_LABELS } from './exportPresets';
+import { isReframeAspect } from './reframe';
+import { framesToSeconds } from './projectSettings';
+import { getCaptionPresetLabel } from './captions';
+
+// Per-job log lines kept for display
+const MAX_LOG_LINES = 200;
+
+// Header lines for a job's log, so each log says what was asked for
+const describeJob = ({ preset, reframe, loudness, range, captions }: RenderOptions, settings: ProjectSettings): string[] => {
+    const output = getOutputFormat(preset, settings);
+    return [
+        '[init] Segmenta Export Engine v1.0',
+        `[init] ${preset.label} (${preset.aspect}): ${output.width}x${output.height} @ ${output.fps}fps`,
+        `[init] ${VIDEO_CODEC_LABELS[preset.videoCodec]} ${preset.videoBitrate} kbps, AAC ${preset.audioBitrate} kbps`,
+        `[init] Framing: ${reframe && isReframeAspect(preset.aspect) ? `reframed ${preset.aspect} crop` : 'fit (letterbox)'}`,
+        `[init] Loudness: ${loudness ? `${loudness.integrated} LUFS / ${loudness.truePeak} dBTP` : 'off'}`,
+        `[init] Range: ${range ? `${framesToSeconds(range.startFrame, settings.fps).toFixed(2)}s-${framesToSeconds(range.endFrame, settings.fps).toFixed(2)}s` : 'full timeline'}`,
+        `[init] Captions: ${captions ? `burned in (${getCaptionPresetLabel(captions.presetId)})` : 'off'}`
+    ];
+};
+
+/**
+ * Background render queue. Jobs run one at a time (FFmpeg is a single shared
+ * instance) in the order they were added, and keep running while the render
+ * dialog is closed. Finished jobs keep their output URL until removed.
+ */
+export const useRenderQueue = () => {
+    const [jobs, setJobs] = useState<RenderJob[]>([]);
+    const runningRef = useRef(false);
+    const controllersRef = useRef(new Map<string, AbortController>()); // One per job that is rendering
+
+    const updateJob = (id: string, update: (job: RenderJob) => Partial<RenderJob>) => {
+        setJobs(prev => prev.map(j => j.id === id ? { ...j, ...update(j) } : j));
+    };
+
+    const enqueue = (label: string, input: RenderInput, options: RenderOptions): string => {
+        const job: RenderJob = { id: crypto.randomUUID(), label, input, options, status: 'queued', progress: 0, stage: 'Queued', logs: [] };
+        setJobs(prev => [...prev, job]);
+        return job.id;
+    };
+
+    // A queued job is simply skipped; a running one has its FFmpeg worker terminated
+    const cancel = (id: string) => {
+        controllersRef.current.get(id)?.abort();
+        setJobs(prev => prev.map(j => j.id === id && j.status === 'queued' ? { ...j, status: 'cancelled', stage: 'Cancelled' } : j));
+    };
+
+    // Sends a finished, failed or cancelled job back to the end of the line with the same input and options
+    // (Output URLs are revoked here rather than in the state updaters, which React may run twice)
+    const retry = (id: string) => {
+        const job = jobs.find(j => j.id === id);
+        if (!job || job.status === 'queued' || job.status === 'rendering') return;
+        if (job.result) URL.revokeObjectURL(job.result.url);
+        const reset: RenderJob = { ...job, status: 'queued', progress: 0, stage: 'Queued', logs: [], result: undefined, error: undefined };
+        setJobs(prev => [...prev.filter(j => j.id !== id), reset]);
+    };
+
+    // Removing the running job cancels it first
+    const remove = (id: string) => {
+        controllersRef.current.get(id)?.abort();
+        const job = jobs.find(j => j.id === id);
+        if (job?.result) URL.revokeObjectURL(job.result.url);
+        setJobs(prev => prev.filter(j => j.id !== id));
+    };
+
+    const run = (job: RenderJob) => {
+        runningRef.current = true;
+        const controller = new AbortController();
+        controllersRef.current.set(job.id, controller);
+        const { segments, tracks, assets, settings } = job.input;
+        updateJob(job.id, () => ({ status: 'rendering', stage: 'Starting...', logs: describeJob(job.options, settings) }));
+
+        const settle = () => {
+            runningRef.current = false;
+            controllersRef.current.delete(job.id);
+        };
+
+        renderTimeline(segments, tracks, assets, settings, job.options, (p, stage) => {
+            updateJob(job.id, j => ({
+                progress: Math.min(p, 1),
+                stage,
+                logs: [...j.logs.slice(-(MAX_LOG_LINES - 1)), `[${(p * 100).toFixed(0).padStart(3, ' ')}%] ${stage}`]
+            }));
+        }, controller.signal)
+            .then(result => {
+                settle();
+                updateJob(job.id, () => ({ status: 'done', progress: 1, stage: 'Export complete!', result }));
+            })
+            .catch(err => {
+                settle();
+                if (err instanceof RenderCancelledError) {
+                    updateJob(job.id, j => ({ status: 'cancelled', stage: 'Cancelled', logs: [...j.logs, '[cancel] Render cancelled, FFmpeg worker terminated'] }));
+                    return;
+                }
+                console.error(`[RenderQueue] Job "${job.label}" failed:`, err);
+                updateJob(job.id, j => ({
+                    status: 'error',
+                    error: err.message || 'An unknown error occurred during export.',
+                    logs: [...j.logs, `[error] ${err.message || err}`]
+                }));
+            });
+    };
+
+    // Every status change lands here, so the next queued job starts as soon as the last one settles
+    useEffect(() => {
+        if (runningRef.current) return;
+        const next = jobs.find(j => j.status === 'queued');
+        if (next) run(next);
+    }, [jobs]);
+
+    const activeCount = jobs.filter(j => j.status === 'queued' || j.status === 'rendering').length;
+
+    // Cancel whatever is running if the editor goes away
+    useEffect(() => () => controllersRef.current.forEach(c => c.abort()), []);
+
+    return { jobs, activeCount, enqueue, cancel, retry, remove };
+};
@@ -0,0 +1,67 @@
+import { CaptionCue } from './captions';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// For file inputs
+export const SUBTITLE_FILE_TYPES = '.srt,.vtt';
+
+// 'HH:MM:SS,mmm' in SRT, 'HH:MM:SS.mmm' in VTT (where the hours are optional)
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+
+const parseTimestamp = (value: string): number | null => {
+    const match = TIMESTAMP.exec(value);
+    if (!match) return null;
+    const [, hours, minutes, seconds, millis] = match;
+    return parseInt(hours || '0', 10) * 3600 + parseInt(minutes, 10) * 60 + parseInt(seconds, 10) + parseInt(millis.padEnd(3, '0'), 10) / 1000;
+};
+
+const formatTimestamp = (seconds: number, separator: string): string => {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor(totalMs / 60000) % 60)}:${pad(Math.floor(totalMs / 1000) % 60)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// Cue text may carry styling tags (<i>, <b>, VTT voice spans) and VTT's escaped characters; captions keep plain text
+const toPlainText = (text: string): string =>
+    text
+        .replace(/<[^>]*>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .trim();
+
+const escapeVtt = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Reads the cues of an SRT or WebVTT file, in seconds. Both are blocks
+ * separated by blank lines with a `start --> end` timing line; anything
+ * without one (the VTT header, NOTE and STYLE blocks) is skipped, as are
+ * cue numbers and identifiers before it.
+ */
+export const parseSubtitles = (content: string): CaptionCue[] => {
+    const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+    const cues = blocks.flatMap(block => {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex < 0) return [];
+
+        const [startText, endText] = lines[timingIndex].split('-->');
+        const start = parseTimestamp(startText);
+        const end = parseTimestamp(endText); // VTT cue settings after the end time are ignored
+        const text = toPlainText(lines.slice(timingIndex + 1).join('\n'));
+        if (start === null || end === null || end <= start || !text) return [];
+        return [{ text, start, end }];
+    });
+
+    if (cues.length === 0) throw new Error('No subtitle cues found. Expected an SRT or WebVTT file.');
+    return cues.sort((a, b) => a.start - b.start);
+};
+
+export const formatSubtitles = (cues: CaptionCue[], format: SubtitleFormat): string => {
+    const body = cues.map((cue, i) => format === 'srt'
+        ? `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}`
+        : `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${escapeVtt(cue.text)}`
+    ).join('\n\n');
+    return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+};
@@ -0,0 +1,178 @@
+import { TextClip, TextAnimation } from '../types';
+import { GainPoint } from './audioGain';
+
+// Web-safe families, so the canvas that renders export titles draws the same face the preview shows
+export const TEXT_FONTS = ['Arial', 'Helvetica', 'Impact', 'Georgia', 'Verdana', 'Courier New'];
+
+export const TEXT_ANIMATIONS: { value: TextAnimation; label: string }[] = [
+    { value: 'none', label: 'None' },
+    { value: 'fade', label: 'Fade' },
+    { value: 'slideUp', label: 'Slide Up' },
+    { value: 'slideLeft', label: 'Slide Left' }
+];
+
+// Length of the in and out animations; shortened on clips too brief to fit both
+export const TEXT_ANIMATION_SECONDS = 0.4;
+
+// Slide distance, as a fraction of the frame
+const SLIDE_DISTANCE = 0.08;
+
+// Longest line before wrapping, as a fraction of the frame width
+export const TEXT_MAX_WIDTH = 0.9;
+
+export const LINE_HEIGHT = 1.2;
+
+// Box padding around the text, in ems
+export const BOX_PADDING = 0.4;
+
+export interface TextTemplate {
+    id: string;
+    label: string;
+    duration: number; // Seconds
+    clip: TextClip;
+}
+
+// Starting points for the titles every ad needs
+export const TEXT_TEMPLATES: TextTemplate[] = [
+    {
+        id: 'headline',
+        label: 'Headline',
+        duration: 3,
+        clip: {
+            content: 'Your Headline Here', fontFamily: 'Impact', fontSize: 0.1, bold: false, color: '#FFFFFF',
+            boxOpacity: 0, x: 0.5, y: 0.2, animationIn: 'slideUp', animationOut: 'fade'
+        }
+    },
+    {
+        id: 'lowerThird',
+        label: 'Price Lower Third',
+        duration: 4,
+        clip: {
+            content: 'Now only $29.99', fontFamily: 'Arial', fontSize: 0.06, bold: true, color: '#111827',
+            boxColor: '#FACC15', boxOpacity: 1, x: 0.3, y: 0.82, animationIn: 'slideLeft', animationOut: 'fade'
+        }
+    },
+    {
+        id: 'ctaCard',
+        label: 'CTA End Card',
+        duration: 3,
+        clip: {
+            content: 'Shop Now\nLink in bio', fontFamily: 'Arial', fontSize: 0.08, bold: true, color: '#FFFFFF',
+            boxColor: '#10B981', boxOpacity: 0.95, x: 0.5, y: 0.5, animationIn: 'fade', animationOut: 'none'
+        }
+    },
+    {
+        id: 'plain',
+        label: 'Plain Text',
+        duration: 3,
+        clip: {
+            content: 'Text', fontFamily: 'Helvetica', fontSize: 0.05, bold: false, color: '#FFFFFF',
+            boxColor: '#000000', boxOpacity: 0.5, x: 0.5, y: 0.5, animationIn: 'none', animationOut: 'none'
+        }
+    }
+];
+
+export const getTextFont = (clip: TextClip, sizePx: number): string =>
+    `${clip.bold ? 'bold ' : ''}${sizePx}px "${clip.fontFamily}", sans-serif`;
+
+// '#RRGGBB' + opacity -> rgba(), for the text box
+export const toRgba = (hex: string, opacity: number): string => {
+    const value = parseInt(hex.replace('#', ''), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+};
+
+/**
+ * Opacity and slide offset (fractions of the frame) over a clip of `duration`
+ * seconds, as piecewise-linear curves in clip-local seconds. The preview
+ * samples them with `gainAt`; the export writes the same points as FFmpeg
+ * expressions. Slides fade as they move.
+ */
+export const getTextMotion = (clip: TextClip, duration: number): { opacity: GainPoint[]; x: GainPoint[]; y: GainPoint[] } => {
+    const length = Math.min(TEXT_ANIMATION_SECONDS, duration / 2);
+    const offsets = (animation: TextAnimation, sign: number) => ({
+        x: animation === 'slideLeft' ? sign * SLIDE_DISTANCE : 0,
+        y: animation === 'slideUp' ? sign * SLIDE_DISTANCE : 0
+    });
+    // Coming in, slides start right/below their spot; going out, they carry on left/up
+    const from = offsets(clip.animationIn, 1);
+    const to = offsets(clip.animationOut, -1);
+    const fadeIn = clip.animationIn !== 'none';
+    const fadeOut = clip.animationOut !== 'none';
+
+    const curve = (start: number, end: number): GainPoint[] => [
+        { time: 0, gain: start },
+        { time: length, gain: 0 },
+        { time: duration - length, gain: 0 },
+        { time: duration, gain: end }
+    ];
+    return {
+        opacity: [
+            { time: 0, gain: fadeIn ? 0 : 1 },
+            { time: length, gain: 1 },
+            { time: duration - length, gain: 1 },
+            { time: duration, gain: fadeOut ? 0 : 1 }
+        ],
+        x: curve(from.x, to.x),
+        y: curve(from.y, to.y)
+    };
+};
+
+// Greedy word wrap against the canvas' measurements; explicit line breaks are kept
+const wrapLines = (ctx: CanvasRenderingContext2D, content: string, maxWidth: number): string[] =>
+    content.split('\n').flatMap(paragraph => {
+        const lines: string[] = [];
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        });
+        return [...lines, line];
+    });
+
+/**
+ * Draws a title (box included) onto a transparent PNG just big enough to
+ * hold it, for a frame of the given display size. The export overlays it
+ * centred on the clip's position.
+ */
+export const renderTextImage = async (clip: TextClip, frameWidth: number, frameHeight: number): Promise<Uint8Array> => {
+    const sizePx = Math.round(clip.fontSize * Math.min(frameWidth, frameHeight));
+    const font = getTextFont(clip, sizePx);
+    await document.fonts.load(font).catch(() => []);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    ctx.font = font;
+    const lines = wrapLines(ctx, clip.content, frameWidth * TEXT_MAX_WIDTH);
+    const padding = Math.round(sizePx * BOX_PADDING);
+    const lineHeight = sizePx * LINE_HEIGHT;
+
+    // Resizing resets the context state, so the font is set again before drawing
+    canvas.width = Math.max(1, Math.ceil(Math.max(...lines.map(l => ctx.measureText(l).width)) + padding * 2));
+    canvas.height = Math.max(1, Math.ceil(lines.length * lineHeight + padding * 2));
+
+    if (clip.boxColor && clip.boxOpacity > 0) {
+        ctx.fillStyle = toRgba(clip.boxColor, clip.boxOpacity);
+        ctx.beginPath();
+        ctx.roundRect(0, 0, canvas.width, canvas.height, sizePx * 0.2);
+        ctx.fill();
+    } else {
+        // Without a box a soft shadow keeps the text readable over busy footage
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+        ctx.shadowBlur = sizePx * 0.15;
+    }
+
+    ctx.font = font;
+    ctx.fillStyle = clip.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    lines.forEach((line, i) => ctx.fillText(line, canvas.width / 2, padding + lineHeight * (i + 0.5)));
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not render title image.');
+    return new Uint8Array(await blob.arrayBuffer());
+};
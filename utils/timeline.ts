@@ -0,0 +1,160 @@
+import { TimelineSegment, AssetType, Track } from '../types';
+import { framesToSeconds, secondsToFrames } from './projectSettings';
+
+// Shortest clip a trim can leave behind
+export const MIN_CLIP_FRAMES = 3;
+
+export type TrimEdge = 'start' | 'end';
+
+export const getSourceIn = (seg: TimelineSegment): number => seg.sourceIn || 0;
+
+export const getSourceOut = (seg: TimelineSegment): number => seg.sourceOut ?? getSourceIn(seg) + seg.duration;
+
+// Stills have no source timeline, so they can be stretched freely in either direction
+const isStill = (seg: TimelineSegment) => seg.assetType === AssetType.IMAGE;
+
+// Clips reading a video or audio file, which can't play past its end (text clips have no file)
+const readsMedia = (seg: TimelineSegment) => !!seg.assetUrl && !isStill(seg);
+
+/**
+ * Moves one edge of a clip by `deltaFrames`, keeping startFrame/endFrame/duration
+ * and the source in/out points consistent. The delta is clamped so the clip
+ * never starts before frame 0, never reads outside its source media and never
+ * collapses below MIN_CLIP_FRAMES. The result sits on whole frames, with its
+ * duration taken from them.
+ */
+export const trimSegment = (seg: TimelineSegment, edge: TrimEdge, deltaFrames: number, fps: number): TimelineSegment => {
+    const startFrame = Math.round(seg.startFrame);
+    const lengthFrames = Math.round(secondsToFrames(seg.duration, fps));
+    const sourceIn = getSourceIn(seg);
+    let delta = Math.round(deltaFrames);
+
+    if (edge === 'start') {
+        delta = Math.max(delta, -startFrame);
+        if (!isStill(seg)) delta = Math.max(delta, -Math.floor(secondsToFrames(sourceIn, fps)));
+        delta = Math.min(delta, lengthFrames - MIN_CLIP_FRAMES);
+
+        const newStart = startFrame + delta;
+        const duration = framesToSeconds(lengthFrames - delta, fps);
+        const newIn = isStill(seg) ? 0 : sourceIn + framesToSeconds(delta, fps);
+        return { ...seg, startFrame: newStart, endFrame: newStart + lengthFrames - delta, duration, sourceIn: newIn, sourceOut: newIn + duration };
+    }
+
+    delta = Math.max(delta, MIN_CLIP_FRAMES - lengthFrames);
+    if (readsMedia(seg)) {
+        // Until the media's length is known, the out point can only move back
+        const remaining = seg.sourceDuration !== undefined ? Math.floor(secondsToFrames(seg.sourceDuration - getSourceOut(seg), fps)) : 0;
+        delta = Math.min(delta, Math.max(0, remaining));
+    }
+
+    const duration = framesToSeconds(lengthFrames + delta, fps);
+    return { ...seg, startFrame, endFrame: startFrame + lengthFrames + delta, duration, sourceIn, sourceOut: sourceIn + duration };
+};
+
+/**
+ * Cuts a clip in two at `frame`. The left half keeps the original id; the right
+ * half takes `rightId` and continues reading the source where the left half stops.
+ * Returns null when the cut would leave either half shorter than MIN_CLIP_FRAMES.
+ */
+export const splitSegment = (seg: TimelineSegment, frame: number, rightId: string, fps: number): [TimelineSegment, TimelineSegment] | null => {
+    const cut = Math.round(frame);
+    const offsetFrames = cut - Math.round(seg.startFrame);
+    const lengthFrames = Math.round(secondsToFrames(seg.duration, fps));
+    if (offsetFrames < MIN_CLIP_FRAMES || lengthFrames - offsetFrames < MIN_CLIP_FRAMES) return null;
+
+    // Fades and the incoming transition belong to the clip's outer edges, so each half keeps only its own
+    const left = { ...trimSegment(seg, 'end', offsetFrames - lengthFrames, fps), fadeOut: undefined };
+    const rightFrames = lengthFrames - offsetFrames;
+    const rightDuration = framesToSeconds(rightFrames, fps);
+    const rightIn = isStill(seg) ? 0 : getSourceIn(seg) + left.duration;
+    const right: TimelineSegment = {
+        ...seg,
+        id: rightId,
+        startFrame: cut,
+        endFrame: cut + rightFrames,
+        duration: rightDuration,
+        sourceIn: rightIn,
+        sourceOut: rightIn + rightDuration,
+        fadeIn: undefined,
+        transitionIn: undefined
+    };
+    return [left, right];
+};
+
+// Clip under the playhead, preferring tracks in list order (main video, overlays, then audio)
+export const findSegmentAtFrame = (segments: TimelineSegment[], tracks: Track[], frame: number): TimelineSegment | undefined => {
+    for (const track of tracks) {
+        const hit = segments.find(s => s.trackId === track.id && frame > s.startFrame && frame < s.endFrame);
+        if (hit) return hit;
+    }
+    return undefined;
+};
+
+const shiftSegment = (seg: TimelineSegment, deltaFrames: number): TimelineSegment => deltaFrames === 0 ? seg : {
+    ...seg,
+    startFrame: seg.startFrame + deltaFrames,
+    endFrame: seg.endFrame + deltaFrames
+};
+
+/**
+ * The part of the timeline between two frames, as if it were the whole edit:
+ * clips outside are dropped, clips crossing either edge are trimmed to it
+ * (losing the fade on the cut side, as with a split) and everything is shifted
+ * so `startFrame` becomes frame 0.
+ */
+export const cropToRange = (segments: TimelineSegment[], startFrame: number, endFrame: number, fps: number): TimelineSegment[] =>
+    segments
+        .filter(s => s.endFrame > startFrame && s.startFrame < endFrame)
+        .map(s => {
+            let seg = s;
+            if (seg.startFrame < startFrame) seg = { ...trimSegment(seg, 'start', startFrame - seg.startFrame, fps), fadeIn: undefined };
+            if (seg.endFrame > endFrame) seg = { ...trimSegment(seg, 'end', endFrame - seg.endFrame, fps), fadeOut: undefined };
+            return shiftSegment(seg, -startFrame);
+        });
+
+/**
+ * Removes a clip (and its linked partner) and pulls every later clip on the
+ * same track left by the removed length, so no gap is left behind. Linked
+ * partners of the shifted clips travel with them.
+ */
+export const rippleDelete = (segments: TimelineSegment[], id: string): TimelineSegment[] => {
+    const target = segments.find(s => s.id === id);
+    if (!target) return segments;
+
+    const lengthFrames = Math.round(target.endFrame - target.startFrame);
+    const removed = new Set([target.id, target.linkedSegmentId]);
+    const shifted = new Set<string>();
+
+    segments.forEach(s => {
+        if (s.trackId === target.trackId && !removed.has(s.id) && s.startFrame >= target.endFrame) {
+            shifted.add(s.id);
+            if (s.linkedSegmentId) shifted.add(s.linkedSegmentId);
+        }
+    });
+
+    return segments
+        .filter(s => !removed.has(s.id))
+        .map(s => shifted.has(s.id) ? shiftSegment(s, -lengthFrames) : s);
+};
+
+/**
+ * Magnetic V1: butts every main-track clip against the previous one, starting
+ * at frame 0, in start-frame order. Linked partners move by the same amount.
+ */
+export const packMainTrack = (segments: TimelineSegment[], mainTrackId: string | undefined, fps: number): TimelineSegment[] => {
+    const main = segments
+        .filter(s => s.trackId === mainTrackId)
+        .sort((a, b) => a.startFrame - b.startFrame);
+
+    const deltas = new Map<string, number>();
+    let cursor = 0;
+    for (const seg of main) {
+        const delta = cursor - seg.startFrame;
+        deltas.set(seg.id, delta);
+        if (seg.linkedSegmentId && !deltas.has(seg.linkedSegmentId)) deltas.set(seg.linkedSegmentId, delta);
+        cursor = Math.round(cursor + secondsToFrames(seg.duration, fps));
+    }
+
+    if (Array.from(deltas.values()).every(d => d === 0)) return segments;
+    return segments.map(s => shiftSegment(s, deltas.get(s.id) || 0));
+};
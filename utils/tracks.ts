@@ -0,0 +1,65 @@
+import { Track, TrackKind } from '../types';
+
+// Ids match the fixed track types used before tracks became editable, so older projects keep their segments' trackIds
+export const DEFAULT_TRACKS: Track[] = [
+    { id: 'VIDEO_MAIN', kind: TrackKind.VIDEO, name: 'V1 Main' },
+    { id: 'OVERLAY', kind: TrackKind.VIDEO, name: 'V2 FX' },
+    { id: 'TEXT', kind: TrackKind.TEXT, name: 'T1 Titles' },
+    { id: 'AUDIO', kind: TrackKind.AUDIO, name: 'A1 Audio' }
+];
+
+export const getTracksOfKind = (tracks: Track[], kind: TrackKind): Track[] => tracks.filter(t => t.kind === kind);
+
+// The first video track is the base picture (black where empty); the rest are overlays
+export const getMainTrackId = (tracks: Track[]): string | undefined => tracks.find(t => t.kind === TrackKind.VIDEO)?.id;
+
+export const getOverlayTrackIds = (tracks: Track[]): string[] =>
+    getTracksOfKind(tracks, TrackKind.VIDEO).slice(1).map(t => t.id);
+
+export const getAudioTrackIds = (tracks: Track[]): string[] =>
+    getTracksOfKind(tracks, TrackKind.AUDIO).map(t => t.id);
+
+export const getTextTrackIds = (tracks: Track[]): string[] =>
+    getTracksOfKind(tracks, TrackKind.TEXT).map(t => t.id);
+
+export const getCaptionTrackIds = (tracks: Track[]): string[] =>
+    getTracksOfKind(tracks, TrackKind.CAPTION).map(t => t.id);
+
+// Only these kinds take dropped media, so a project always keeps one of each
+export const isRequiredKind = (kind: TrackKind): boolean => kind === TrackKind.VIDEO || kind === TrackKind.AUDIO;
+
+// The order kinds are grouped in, top to bottom
+const KIND_ORDER = [TrackKind.VIDEO, TrackKind.TEXT, TrackKind.CAPTION, TrackKind.AUDIO];
+
+const TRACK_PREFIXES: Record<TrackKind, string> = {
+    [TrackKind.VIDEO]: 'V',
+    [TrackKind.TEXT]: 'T',
+    [TrackKind.CAPTION]: 'C',
+    [TrackKind.AUDIO]: 'A'
+};
+
+// Tracks stay grouped by kind, so a new track goes after the last of its kind
+// (or, for the first of a kind, after the kinds that come before it)
+export const addTrack = (tracks: Track[], id: string, kind: TrackKind, name?: string): Track[] => {
+    const count = getTracksOfKind(tracks, kind).length;
+    const track: Track = { id, kind, name: name || `${TRACK_PREFIXES[kind]}${count + 1}` };
+    const lastOfKind = tracks.map(t => t.kind).lastIndexOf(kind);
+    const insertAt = lastOfKind >= 0
+        ? lastOfKind + 1
+        : tracks.filter(t => KIND_ORDER.indexOf(t.kind) < KIND_ORDER.indexOf(kind)).length;
+    return [...tracks.slice(0, insertAt), track, ...tracks.slice(insertAt)];
+};
+
+// Swaps a track with its nearest neighbour of the same kind; returns the list untouched at either end
+export const moveTrack = (tracks: Track[], id: string, direction: -1 | 1): Track[] => {
+    const index = tracks.findIndex(t => t.id === id);
+    if (index < 0) return tracks;
+
+    let target = index + direction;
+    while (target >= 0 && target < tracks.length && tracks[target].kind !== tracks[index].kind) target += direction;
+    if (target < 0 || target >= tracks.length) return tracks;
+
+    const next = [...tracks];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
@@ -0,0 +1,102 @@
+import { TimelineSegment, Transition, TransitionType, AssetType } from '../types';
+import { getSourceIn, getSourceOut } from './timeline';
+import { framesToSeconds } from './projectSettings';
+import { GainPoint } from './audioGain';
+
+// `xfade` is the FFmpeg xfade transition the export renders each type with
+export const TRANSITION_TYPES: { type: TransitionType; label: string; xfade: string }[] = [
+    { type: 'crossfade', label: 'Crossfade', xfade: 'fade' },
+    { type: 'dipToBlack', label: 'Dip to Black', xfade: 'fadeblack' },
+    { type: 'dipToWhite', label: 'Dip to White', xfade: 'fadewhite' },
+    { type: 'slide', label: 'Slide', xfade: 'slideleft' },
+    { type: 'wipe', label: 'Wipe', xfade: 'wipeleft' }
+];
+
+export const DEFAULT_TRANSITION: Transition = { type: 'crossfade', duration: 0.5 };
+export const MAX_TRANSITION_DURATION = 3;
+
+export const getTransitionLabel = (type: TransitionType): string => TRANSITION_TYPES.find(t => t.type === type)?.label || type;
+
+export const getXfadeName = (type: TransitionType): string => TRANSITION_TYPES.find(t => t.type === type)?.xfade || 'fade';
+
+// A transition between two clips, with its duration already fitted to them
+export interface ActiveTransition {
+    outgoing: TimelineSegment;
+    incoming: TimelineSegment;
+    transition: Transition;
+}
+
+// The clip butted against the start of `seg` on its track (frame positions may carry rounding)
+export const getPreviousClip = (segments: TimelineSegment[], seg: TimelineSegment): TimelineSegment | undefined =>
+    segments.find(s => s.trackId === seg.trackId && s.id !== seg.id && Math.abs(s.endFrame - seg.startFrame) < 0.5);
+
+// Each half fits inside its clip, so the transitions at either end of one clip never overlap
+const fitTransition = (transition: Transition, outgoing: TimelineSegment, incoming: TimelineSegment): Transition =>
+    ({ ...transition, duration: Math.min(transition.duration, outgoing.duration, incoming.duration) });
+
+// The transitions that play on one track: those whose clip still butts against the previous one
+export const getTrackTransitions = (segments: TimelineSegment[], trackId: string | undefined): ActiveTransition[] =>
+    segments
+        .filter(s => s.trackId === trackId && s.transitionIn)
+        .flatMap(incoming => {
+            const outgoing = getPreviousClip(segments, incoming);
+            return outgoing ? [{ outgoing, incoming, transition: fitTransition(incoming.transitionIn!, outgoing, incoming) }] : [];
+        })
+        .sort((a, b) => a.incoming.startFrame - b.incoming.startFrame);
+
+/**
+ * Linked audio follows its picture: where two clips transition and their
+ * linked audio clips butt together on one track, the audio crossfades over
+ * the same window.
+ */
+export const getLinkedAudioTransitions = (segments: TimelineSegment[], videoTransitions: ActiveTransition[]): ActiveTransition[] =>
+    videoTransitions.flatMap(({ outgoing, incoming, transition }) => {
+        const audioOut = segments.find(s => s.id === outgoing.linkedSegmentId);
+        const audioIn = segments.find(s => s.id === incoming.linkedSegmentId);
+        if (!audioOut || !audioIn || getPreviousClip(segments, audioIn)?.id !== audioOut.id) return [];
+        return [{ outgoing: audioOut, incoming: audioIn, transition: fitTransition(transition, audioOut, audioIn) }];
+    });
+
+// The transition whose window covers `time` (seconds), and how far through it that is (0-1)
+export const getTransitionAt = (transitions: ActiveTransition[], time: number, fps: number): (ActiveTransition & { progress: number }) | null => {
+    for (const t of transitions) {
+        const start = framesToSeconds(t.incoming.startFrame, fps) - t.transition.duration / 2;
+        if (time >= start && time < start + t.transition.duration) return { ...t, progress: (time - start) / t.transition.duration };
+    }
+    return null;
+};
+
+/**
+ * How far a clip reaches past its trim points to cover half of each
+ * transition it takes part in (`lead` before its start, `tail` after its
+ * end), and how much of that the source media can supply. The rest is held
+ * on the edge frame for pictures and silent for audio. Stills supply any length.
+ */
+export interface ClipHandles {
+    lead: number;
+    tail: number;
+    leadMedia: number;
+    tailMedia: number;
+}
+
+export const getClipHandles = (seg: TimelineSegment, transitions: ActiveTransition[]): ClipHandles => {
+    const incoming = transitions.find(t => t.incoming.id === seg.id);
+    const outgoing = transitions.find(t => t.outgoing.id === seg.id);
+    const lead = incoming ? incoming.transition.duration / 2 : 0;
+    const tail = outgoing ? outgoing.transition.duration / 2 : 0;
+    if (seg.assetType === AssetType.IMAGE) return { lead, tail, leadMedia: lead, tailMedia: tail };
+
+    const remaining = seg.sourceDuration !== undefined ? Math.max(0, seg.sourceDuration - getSourceOut(seg)) : 0;
+    return { lead, tail, leadMedia: Math.min(lead, getSourceIn(seg)), tailMedia: Math.min(tail, remaining) };
+};
+
+// Linear ramps across each transition window (acrossfade's default curve), in seconds from the start of the lead handle
+export const getCrossfadePoints = (seg: TimelineSegment, { lead, tail }: ClipHandles): GainPoint[] => {
+    const end = lead + seg.duration + tail;
+    return [
+        { time: 0, gain: lead > 0 ? 0 : 1 },
+        { time: lead * 2, gain: 1 },
+        { time: end - tail * 2, gain: 1 },
+        { time: end, gain: tail > 0 ? 0 : 1 }
+    ];
+};
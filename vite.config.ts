@@ -4,14 +4,19 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
+  // Cross-origin isolation, which the multithreaded FFmpeg core needs (see readme.md for deployment)
+  const isolationHeaders = {
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Cross-Origin-Embedder-Policy': 'credentialless',
+  };
   return {
     server: {
       port: 3000,
       host: '0.0.0.0',
-      headers: {
-        'Cross-Origin-Opener-Policy': 'same-origin',
-        'Cross-Origin-Embedder-Policy': 'credentialless',
-      },
+      headers: isolationHeaders,
+    },
+    preview: {
+      headers: isolationHeaders,
     },
     plugins: [react()],
     optimizeDeps: {